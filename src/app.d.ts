@@ -1,4 +1,5 @@
-import type { UserCredentials } from '$lib/server/sso-auth';
+import type { ApiKeyPrincipal } from '$lib/server/api-keys';
+import type { AuthUser } from '$lib/server/authz';
 
 // See https://svelte.dev/docs/kit/types#app.d.ts
 // for information about these interfaces
@@ -6,8 +7,10 @@ declare global {
 	namespace App {
 		// interface Error {}
 		interface Locals {
-			user: UserCredentials | null;
+			user: AuthUser | null;
 			bearer: string | null;
+			// Set instead of `user` when the request authenticated with an API key.
+			apiKey: ApiKeyPrincipal | null;
 		}
 		// interface PageData {}
 		// interface PageState {}
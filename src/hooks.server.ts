@@ -1,35 +1,139 @@
-import type { Handle } from '@sveltejs/kit';
+import { json, type Handle } from '@sveltejs/kit';
+import { sequence } from '@sveltejs/kit/hooks';
 import { initPostgres } from '$lib/server/postgres';
-import { clearAuthCookies, getBearerFromEvent, getUserFromEvent } from '$lib/server/sso-auth';
-import { isKeycloakEnabled, verifyKeycloakAccessToken } from '$lib/server/keycloak';
+import { startAnalyticsQueue } from '$lib/server/analytics-queue';
+import {
+    clearAuthCookies,
+    getBearerFromEvent,
+    isTransientAuthError,
+    userFromClaims
+} from '$lib/server/sso-auth';
+import { getVerifiedClaims, rolesFromClaims } from '$lib/server/keycloak';
+import { startCatalogReconciler } from '$lib/server/video-catalog';
+import { startSessionPruner } from '$lib/server/session-store';
+import { histogram } from '$lib/server/metrics';
+import { authenticateApiKey, getApiKeyFromRequest } from '$lib/server/api-keys';
+import {
+    checkApiKeyAttempts,
+    checkRateLimit,
+    recordApiKeyFailure,
+    startRateLimitPruner,
+    type RateLimitDecision
+} from '$lib/server/rate-limit';
+import { startVideoPurger } from '$lib/server/video-deletion';
+import { startVideoTagSync } from '$lib/server/video-tag-sync';
+
+const httpRequestDuration = histogram({
+    name: 'http_request_duration_seconds',
+    help: 'Time spent handling HTTP requests, by route',
+    labelNames: ['method', 'route', 'status'] as const
+});
+
+const KNOWN_METHODS = new Set(['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS']);
 
 // Connect to Postgres once when the server starts.
-// Analytics inserts are best-effort, so don't crash the whole app if Postgres is unavailable.
+// Don't crash the whole app if Postgres is unavailable: hits are spooled to disk, the unfiltered
+// feed is served from the bucket, and the background tasks below reconnect on their own.
+// Everything else that needs the database (search, tags, sign-in, moderation) fails until then.
 try {
     await initPostgres();
 } catch (e) {
     console.error('Postgres init failed; continuing without DB', e);
 }
+startAnalyticsQueue();
+// Keep the `videos` table in sync with the bucket in the background.
+startCatalogReconciler();
+startSessionPruner();
+startRateLimitPruner();
+// Deleted videos are purged from the bucket once their restore window is over.
+startVideoPurger();
+// Backfill the tag mirror for videos nobody has opened since they were last synced.
+startVideoTagSync();
+
+const handleMetrics: Handle = async ({ event, resolve }) => {
+    // Route ids (e.g. /api/video/[video_id]) keep the label set bounded, unlike raw paths.
+    const endTimer = httpRequestDuration.startTimer({
+        method: KNOWN_METHODS.has(event.request.method) ? event.request.method : 'OTHER',
+        route: event.route.id ?? 'unmatched'
+    });
+    let status = 500;
+    try {
+        const response = await resolve(event);
+        status = response.status;
+        return response;
+    } finally {
+        endTimer({ status: String(status) });
+    }
+};
+
+const tooManyRequests = (decision: RateLimitDecision) =>
+    json(
+        { error: 'Too many requests' },
+        {
+            status: 429,
+            headers: {
+                'retry-after': String(Math.max(1, Math.ceil(decision.retryAfterMs / 1000))),
+                'cache-control': 'no-store'
+            }
+        }
+    );
 
-export const handle: Handle = async ({ event, resolve }) => {
+const handleAuth: Handle = async ({ event, resolve }) => {
     event.locals.user = null;
     event.locals.bearer = null;
+    event.locals.apiKey = null;
+
+    // Machine clients: a presented API key must be valid, and replaces the session entirely.
+    // Wrong keys count against the client's address, so keys can't be guessed at request speed.
+    const apiKey = getApiKeyFromRequest(event.request);
+    if (apiKey) {
+        const attempts = await checkApiKeyAttempts(event);
+        if (attempts && !attempts.allowed) return tooManyRequests(attempts);
+        try {
+            event.locals.apiKey = await authenticateApiKey(apiKey);
+        } catch (e) {
+            console.error('[API KEYS] lookup failed', e);
+            return json(
+                { error: 'API key check unavailable' },
+                { status: 503, headers: { 'cache-control': 'no-store' } }
+            );
+        }
+        if (!event.locals.apiKey) {
+            await recordApiKeyFailure(event);
+            return json(
+                { error: 'Invalid API key' },
+                { status: 401, headers: { 'cache-control': 'no-store' } }
+            );
+        }
+        return resolve(event);
+    }
 
     // Optionally populate user info if a valid token is present, but don't require login.
+    // locals.user is only ever built from claims getVerifiedClaims vouches for.
     try {
         const bearer = await getBearerFromEvent(event);
         if (bearer) {
             const token = bearer.replace(/^Bearer\s+/i, '').trim();
-            if (token && isKeycloakEnabled()) {
-                await verifyKeycloakAccessToken(token);
-            }
+            const claims = token ? await getVerifiedClaims(token) : null;
             event.locals.bearer = bearer;
-            event.locals.user = await getUserFromEvent(event);
+            const user = claims ? userFromClaims(claims, token) : null;
+            event.locals.user = user ? { ...user, roles: rolesFromClaims(claims!) } : null;
         }
-    } catch {
-        // Token invalid or missing - continue without auth
-        clearAuthCookies(event);
+    } catch (e) {
+        // Token invalid or missing - continue without auth. If the SSO is just unreachable,
+        // keep the session cookie so the user is signed back in once it recovers.
+        if (!isTransientAuthError(e)) clearAuthCookies(event);
     }
 
     return resolve(event);
 };
+
+// Runs after handleAuth so signed-in users and API keys get their own buckets instead of
+// sharing one per address.
+const handleRateLimit: Handle = async ({ event, resolve }) => {
+    const decision = await checkRateLimit(event);
+    if (decision && !decision.allowed) return tooManyRequests(decision);
+    return resolve(event);
+};
+
+export const handle = sequence(handleMetrics, handleAuth, handleRateLimit);
@@ -0,0 +1,28 @@
+// What an API key may do. Keys never inherit a user's roles; each endpoint that accepts keys
+// names the scope it needs.
+export const API_KEY_SCOPES = [
+	'videos:read',
+	'videos:upload',
+	'videos:tag',
+	'videos:delete',
+	'stats:read'
+] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export const isApiKeyScope = (value: string): value is ApiKeyScope =>
+	(API_KEY_SCOPES as readonly string[]).includes(value);
+
+// A key as listed on the admin page; the secret itself is only ever shown once, at creation.
+export type ApiKeySummary = {
+	id: string;
+	name: string;
+	// Leading characters of the key, enough to recognise it in a config file.
+	prefix: string;
+	scopes: ApiKeyScope[];
+	createdBy: string;
+	createdAt: number;
+	expiresAt: number | null;
+	lastUsedAt: number | null;
+	revokedAt: number | null;
+};
@@ -0,0 +1,8 @@
+import type { VideoCaption } from '$lib/api/videos';
+
+// PUT /api/video/<id>/captions/<lang> takes the caption file as the raw request body. WebVTT is
+// stored as is; anything else is read as SRT and converted.
+export type CaptionUploadResponse = {
+	// Every caption track the video now has.
+	captions: VideoCaption[];
+};
@@ -0,0 +1,54 @@
+export const STATS_RANGES = ['24h', '7d', '30d', '90d'] as const;
+
+export type StatsRange = (typeof STATS_RANGES)[number];
+
+// Half-open [from, to) in epoch ms; `from` is aligned to `bucketMs` (hourly for 24h, daily
+// otherwise, both in UTC).
+export type StatsWindow = {
+	range: StatsRange;
+	from: number;
+	to: number;
+	bucketMs: number;
+};
+
+export type StatsSummary = {
+	window: StatsWindow;
+	plays: number;
+	// Distinct IP + user-agent pairs.
+	viewers: number;
+	videos: number;
+	// Feed loads, and the subset that landed on a `?v=` deep link.
+	visits: number;
+	deepLinks: number;
+};
+
+export type PlaysPoint = {
+	t: number;
+	plays: number;
+	viewers: number;
+};
+
+export type PlaysResponse = {
+	window: StatsWindow;
+	videoId: string | null;
+	points: PlaysPoint[];
+};
+
+export type VideoStat = {
+	videoId: string;
+	// Plays for top videos, landings for deep links.
+	count: number;
+	viewers: number;
+	// Null once the video is no longer in the catalog.
+	thumbUrl: string | null;
+};
+
+export type TopVideosResponse = {
+	window: StatsWindow;
+	videos: VideoStat[];
+};
+
+export type DeepLinksResponse = {
+	window: StatsWindow;
+	links: VideoStat[];
+};
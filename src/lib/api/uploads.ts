@@ -0,0 +1,28 @@
+import type { VideoItem } from '$lib/api/videos';
+
+// The catalog only knows `.mp4` objects, so that's all an upload may be.
+export const UPLOAD_CONTENT_TYPES = ['video/mp4'] as const;
+
+export type UploadContentType = (typeof UPLOAD_CONTENT_TYPES)[number];
+
+export const isUploadContentType = (value: string): value is UploadContentType =>
+	(UPLOAD_CONTENT_TYPES as readonly string[]).includes(value);
+
+export type CreateUploadRequest = {
+	contentType: string;
+	size: number;
+};
+
+// Where to PUT the file. Send exactly `headers` (the signature covers them), then call
+// POST /api/uploads/<slug>/complete.
+export type UploadTicket = {
+	slug: string;
+	url: string;
+	method: 'PUT';
+	headers: Record<string, string>;
+	expiresAt: number;
+};
+
+export type CompletedUpload = {
+	video: VideoItem;
+};
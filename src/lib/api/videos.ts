@@ -0,0 +1,96 @@
+export type VideoItem = {
+	id: string;
+	// Progressive MP4; always playable.
+	videoUrl: string;
+	// HLS master playlist, when the video has been packaged for adaptive streaming. Players
+	// should prefer it and fall back to `videoUrl`.
+	hlsUrl: string | null;
+	thumbUrl: string;
+	// Still frame to show in place of the thumb until its preview plays; null without one.
+	posterUrl: string | null;
+	// `posterUrl` at 1x and 2x, for <img srcset>; null when there is no 2x rendition.
+	posterSrcset: string | null;
+	// Subtitle tracks, sorted by language code. Empty when the video has none.
+	captions: VideoCaption[];
+};
+
+export type VideoCaption = {
+	// Lower-case BCP 47 code, e.g. "en" or "pt-br".
+	lang: string;
+	label: string;
+	// WebVTT, served from this site so <track> works without CORS on the bucket.
+	url: string;
+};
+
+export type VideosResponse = {
+	items: VideoItem[];
+	// Only set for legacy offset requests (`?page=`); cursor clients should ignore it.
+	page: number | null;
+	pageSize: number;
+	hasMore: boolean;
+	nextPage: number | null;
+	nextCursor: string | null;
+	total: number;
+};
+
+export type TagMatch = 'all' | 'any';
+
+export type VideoFilter = {
+	tags: string[];
+	match: TagMatch;
+	q: string;
+};
+
+// Response to DELETE /api/video/<id> and POST /api/video/<id>/restore. A removed video is
+// hidden from the feed but restorable until `purgeAfter`; after that its files are gone.
+export type VideoDeletion = {
+	id: string;
+	removedAt: number | null;
+	purgeAfter: number | null;
+	purgedAt: number | null;
+};
+
+export const BULK_VIDEO_ACTIONS = ['add-tags', 'remove-tags', 'delete', 'restore'] as const;
+
+export type BulkVideoAction = (typeof BULK_VIDEO_ACTIONS)[number];
+
+export const isBulkVideoAction = (value: string): value is BulkVideoAction =>
+	(BULK_VIDEO_ACTIONS as readonly string[]).includes(value);
+
+// POST /api/videos/bulk. `tags` is required for the tag actions and ignored otherwise.
+export type BulkVideoRequest = {
+	action: BulkVideoAction;
+	ids: string[];
+	tags?: string[];
+};
+
+// One per requested id, in request order. `status` is the HTTP status the single-video
+// endpoint would have answered with.
+export type BulkVideoResult = {
+	id: string;
+	ok: boolean;
+	status: number;
+	error?: string;
+};
+
+export type BulkVideoResponse = {
+	action: BulkVideoAction;
+	results: BulkVideoResult[];
+	succeeded: number;
+	failed: number;
+};
+
+// Where a play was recorded from: the feed on this site or the /embed player.
+export const VIDEO_HIT_SOURCES = ['feed', 'embed'] as const;
+
+export type VideoHitSource = (typeof VIDEO_HIT_SOURCES)[number];
+
+export const isVideoHitSource = (value: string): value is VideoHitSource =>
+	(VIDEO_HIT_SOURCES as readonly string[]).includes(value);
+
+// POST /api/video-hit. `referrer` (the embedding page) is only kept for embed plays.
+export type VideoHitRequest = {
+	videoId: string;
+	source?: VideoHitSource;
+	referrer?: string;
+};
@@ -0,0 +1,31 @@
+// Caption language codes, shared by the browser and the server. Codes are BCP 47 tags kept in
+// lower case ("en", "pt-br") because they end up in bucket keys.
+
+const LANG_PATTERN = /^[a-z]{2,3}(-[a-z0-9]{2,8})*$/;
+
+export const normalizeCaptionLang = (value: string): string | null => {
+	const lang = value.trim().replace(/_/g, '-').toLowerCase();
+	return LANG_PATTERN.test(lang) ? lang : null;
+};
+
+let displayNames: Intl.DisplayNames | null | undefined;
+
+// "en" -> "English", "pt-br" -> "Brazilian Portuguese"; the code itself if the runtime can't say.
+export const captionLabel = (lang: string) => {
+	if (displayNames === undefined) {
+		try {
+			displayNames = new Intl.DisplayNames(['en'], { type: 'language' });
+		} catch {
+			displayNames = null;
+		}
+	}
+	try {
+		return displayNames?.of(lang) ?? lang;
+	} catch {
+		return lang;
+	}
+};
+
+// Where the player fetches a track; see src/routes/captions.
+export const toCaptionPath = (slug: string, lang: string) =>
+	`/captions/${encodeURIComponent(slug)}/${lang}.vtt`;
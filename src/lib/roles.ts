@@ -0,0 +1,13 @@
+// App roles, lowest first. Each role includes everything the ones before it can do, so a
+// moderator can also tag and an admin can do anything.
+export const ROLES = ['viewer', 'tagger', 'moderator', 'admin'] as const;
+
+export type Role = (typeof ROLES)[number];
+
+export const isRole = (value: string): value is Role =>
+	(ROLES as readonly string[]).includes(value);
+
+export const hasRole = (roles: readonly Role[] | null | undefined, required: Role) => {
+	const needed = ROLES.indexOf(required);
+	return (roles ?? []).some((role) => ROLES.indexOf(role) >= needed);
+};
@@ -0,0 +1,231 @@
+import { env } from '$env/dynamic/private';
+import type { VideoHitSource } from '$lib/api/videos';
+import { appendToSpool, replaySpool } from '$lib/server/analytics-spool';
+import { counter, gauge } from '$lib/server/metrics';
+import { getPostgresPool, initPostgres, isPostgresReady } from '$lib/server/postgres';
+
+export type HomeHitRow = {
+	id: string;
+	ipAddress: string;
+	useragent: string;
+	timestamp: number;
+	videoId: string | null;
+};
+
+export type VideoHitRow = {
+	id: string;
+	videoId: string;
+	ipAddress: string;
+	useragent: string;
+	timestamp: number;
+	// Optional because hits spooled by older builds don't carry them.
+	source?: VideoHitSource;
+	referrer?: string | null;
+};
+
+export type QueuedHit =
+	| { table: 'home_hits'; row: HomeHitRow }
+	| { table: 'video_hits'; row: VideoHitRow };
+
+export type AnalyticsTable = QueuedHit['table'];
+
+const readPositiveInt = (value: string | undefined, fallback: number) => {
+	const parsed = Number.parseInt(value ?? '', 10);
+	return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+const getMaxBuffer = () => readPositiveInt(env.ANALYTICS_MAX_BUFFER, 10_000);
+const getBatchSize = () => readPositiveInt(env.ANALYTICS_BATCH_SIZE, 500);
+const getFlushIntervalMs = () => readPositiveInt(env.ANALYTICS_FLUSH_INTERVAL_MS, 2_000);
+const getReplayIntervalMs = () => readPositiveInt(env.ANALYTICS_SPOOL_REPLAY_INTERVAL_MS, 30_000);
+
+// Hits are recorded off the request path: handlers enqueue, and a timer (or a full batch)
+// writes them with one multi-row insert per table. The buffer is bounded; when Postgres can't
+// keep up we drop the newest hits and count them rather than grow without limit. While the
+// database is down, batches go to the local spool (see analytics-spool) and are replayed later.
+const buffer: QueuedHit[] = [];
+
+const dropped = counter({
+	name: 'analytics_hits_dropped_total',
+	help: 'Hits dropped because the analytics buffer or spool was full',
+	labelNames: ['table'] as const
+});
+const written = counter({
+	name: 'analytics_hits_written_total',
+	help: 'Hits written to Postgres by the analytics queue',
+	labelNames: ['table'] as const
+});
+const spooled = counter({
+	name: 'analytics_hits_spooled_total',
+	help: 'Hits written to the local spool while Postgres was unavailable',
+	labelNames: ['table'] as const
+});
+const replayed = counter({
+	name: 'analytics_hits_replayed_total',
+	help: 'Spooled hits replayed into Postgres'
+});
+gauge({
+	name: 'analytics_queue_depth',
+	help: 'Hits buffered in memory awaiting a Postgres write',
+	collect: (g) => g.set({}, buffer.length)
+});
+gauge({
+	name: 'analytics_queue_capacity',
+	help: 'Maximum hits the analytics buffer holds before dropping',
+	collect: (g) => g.set({}, getMaxBuffer())
+});
+
+let flushTimer: ReturnType<typeof setInterval> | undefined;
+let replayTimer: ReturnType<typeof setInterval> | undefined;
+let replaying = false;
+let flushing: Promise<void> | null = null;
+
+const INSERT_SQL: Record<AnalyticsTable, string> = {
+	home_hits: `insert into home_hits (id, ip_address, useragent, timestamp, video_id)
+		select * from unnest($1::uuid[], $2::text[], $3::text[], $4::bigint[], $5::text[])
+		on conflict (id) do nothing`,
+	video_hits: `insert into video_hits
+			(id, video_id, ip_address, useragent, timestamp, source, referrer)
+		select * from unnest(
+			$1::uuid[], $2::text[], $3::text[], $4::text[], $5::bigint[], $6::text[], $7::text[]
+		)
+		on conflict (id) do nothing`
+};
+
+const toColumns = (hits: QueuedHit[], table: AnalyticsTable): unknown[][] => {
+	if (table === 'home_hits') {
+		const rows = hits.flatMap((h) => (h.table === 'home_hits' ? [h.row] : []));
+		return [
+			rows.map((r) => r.id),
+			rows.map((r) => r.ipAddress),
+			rows.map((r) => r.useragent),
+			rows.map((r) => r.timestamp),
+			rows.map((r) => r.videoId)
+		];
+	}
+	const rows = hits.flatMap((h) => (h.table === 'video_hits' ? [h.row] : []));
+	return [
+		rows.map((r) => r.id),
+		rows.map((r) => r.videoId),
+		rows.map((r) => r.ipAddress),
+		rows.map((r) => r.useragent),
+		rows.map((r) => r.timestamp),
+		rows.map((r) => r.source ?? null),
+		rows.map((r) => r.referrer ?? null)
+	];
+};
+
+const writeBatch = async (batch: QueuedHit[]) => {
+	const pool = getPostgresPool();
+	for (const table of ['home_hits', 'video_hits'] as const) {
+		const count = batch.filter((h) => h.table === table).length;
+		if (!count) continue;
+		await pool.query(INSERT_SQL[table], toColumns(batch, table));
+		written.inc({ table }, count);
+	}
+};
+
+const requeue = (batch: QueuedHit[]) => {
+	const room = Math.max(0, getMaxBuffer() - buffer.length);
+	for (const hit of batch.slice(room)) dropped.inc({ table: hit.table });
+	buffer.unshift(...batch.slice(0, room));
+};
+
+// Park a batch on disk; only if that fails too does it go back into the (bounded) buffer.
+const spool = async (batch: QueuedHit[]) => {
+	let saved = 0;
+	try {
+		saved = await appendToSpool(batch);
+	} catch (e) {
+		console.error('[ANALYTICS] spool write failed', e);
+		requeue(batch);
+		return;
+	}
+	for (const hit of batch.slice(0, saved)) spooled.inc({ table: hit.table });
+	// The spool is full; these are gone.
+	for (const hit of batch.slice(saved)) dropped.inc({ table: hit.table });
+};
+
+const flushOnce = async () => {
+	while (buffer.length) {
+		const batch = buffer.splice(0, getBatchSize());
+		if (!isPostgresReady()) {
+			await spool(batch);
+			continue;
+		}
+		try {
+			await writeBatch(batch);
+		} catch (e) {
+			console.error('[ANALYTICS] flush failed; spooling batch', e);
+			await spool(batch);
+		}
+	}
+};
+
+// Write everything currently buffered. Concurrent callers share one in-flight flush.
+export const flushAnalytics = (): Promise<void> => {
+	if (!flushing) {
+		flushing = flushOnce().finally(() => {
+			flushing = null;
+		});
+	}
+	return flushing;
+};
+
+const ensureFlushTimer = () => {
+	if (flushTimer) return;
+	flushTimer = setInterval(() => void flushAnalytics(), getFlushIntervalMs());
+	flushTimer.unref?.();
+};
+
+const enqueue = (hit: QueuedHit) => {
+	ensureFlushTimer();
+	if (buffer.length >= getMaxBuffer()) {
+		dropped.inc({ table: hit.table });
+		return;
+	}
+	buffer.push(hit);
+	if (buffer.length >= getBatchSize()) void flushAnalytics();
+};
+
+export const enqueueHomeHit = (row: HomeHitRow) => enqueue({ table: 'home_hits', row });
+
+export const enqueueVideoHit = (row: VideoHitRow) => enqueue({ table: 'video_hits', row });
+
+// Reconnect if needed, then drain the spool into Postgres.
+const replayOnce = async () => {
+	if (replaying) return;
+	replaying = true;
+	try {
+		const pool = await initPostgres();
+		// An existing pool doesn't mean Postgres is up; replay failures during an outage would
+		// count against the spool files (see analytics-spool) for no fault of theirs.
+		await pool.query('select 1');
+		const count = await replaySpool(writeBatch);
+		if (count) {
+			replayed.inc({}, count);
+			console.log('[ANALYTICS] replayed spooled hits', { count });
+		}
+	} catch (e) {
+		// Still down (or the replay hit an error); the spool is kept for the next attempt.
+		if (isPostgresReady()) console.error('[ANALYTICS] spool replay failed', e);
+	} finally {
+		replaying = false;
+	}
+};
+
+// Start the background flush and spool replay. Replays right away so hits spooled by a
+// previous process are written even before any new traffic arrives.
+export const startAnalyticsQueue = () => {
+	ensureFlushTimer();
+	if (replayTimer) return;
+	void replayOnce();
+	replayTimer = setInterval(() => void replayOnce(), getReplayIntervalMs());
+	replayTimer.unref?.();
+};
+
+// adapter-node emits this once SIGTERM/SIGINT has drained the HTTP server; write out what's
+// left (to Postgres, or the spool if it's down) before the process exits.
+process.once('sveltekit:shutdown', () => {
+	void flushAnalytics();
+});
@@ -0,0 +1,153 @@
+import { env } from '$env/dynamic/private';
+import { createReadStream } from 'node:fs';
+import { appendFile, mkdir, readdir, rename, stat, unlink } from 'node:fs/promises';
+import path from 'node:path';
+import { createInterface } from 'node:readline';
+import type { QueuedHit } from '$lib/server/analytics-queue';
+
+// Local, append-only NDJSON file that holds analytics hits while Postgres is unreachable.
+// Each line is one QueuedHit. Replays rename the live file first so new hits keep appending to
+// a fresh one, then re-insert everything by id (duplicates from a half-finished replay are
+// skipped by the `on conflict (id) do nothing` inserts). A file that still fails after
+// MAX_REPLAY_ATTEMPTS tries (say, a row Postgres rejects) is renamed to `.failed` and left for
+// an operator, so it can't hold up the files behind it.
+
+const REPLAYING_SUFFIX = '.replaying';
+const FAILED_SUFFIX = '.failed';
+const REPLAY_BATCH_SIZE = 500;
+const MAX_REPLAY_ATTEMPTS = 5;
+
+// Failed replays per `.replaying` file, since this process started.
+const replayFailures = new Map<string, number>();
+
+const getSpoolPath = () =>
+	path.resolve(env.ANALYTICS_SPOOL_PATH || path.join('data', 'analytics-spool.ndjson'));
+
+const getMaxSpoolBytes = () => {
+	const parsed = Number.parseInt(env.ANALYTICS_SPOOL_MAX_BYTES ?? '', 10);
+	return Number.isFinite(parsed) && parsed > 0 ? parsed : 256 * 1024 * 1024;
+};
+
+// Appends and the replay's rename must not interleave, or a hit could be appended to a file
+// that has already been read.
+let spoolLock: Promise<unknown> = Promise.resolve();
+const withSpoolLock = <T>(fn: () => Promise<T>): Promise<T> => {
+	const run = spoolLock.then(fn, fn);
+	spoolLock = run.catch(() => {});
+	return run;
+};
+
+const fileSize = async (file: string) => {
+	try {
+		return (await stat(file)).size;
+	} catch {
+		return 0;
+	}
+};
+
+// Returns how many hits were written; hits past ANALYTICS_SPOOL_MAX_BYTES are refused so a
+// long outage can't fill the disk.
+export const appendToSpool = (hits: QueuedHit[]): Promise<number> =>
+	withSpoolLock(async () => {
+		const file = getSpoolPath();
+		await mkdir(path.dirname(file), { recursive: true });
+
+		let room = getMaxSpoolBytes() - (await fileSize(file));
+		const lines: string[] = [];
+		for (const hit of hits) {
+			const line = `${JSON.stringify(hit)}\n`;
+			const bytes = Buffer.byteLength(line);
+			if (bytes > room) break;
+			room -= bytes;
+			lines.push(line);
+		}
+		if (lines.length) await appendFile(file, lines.join(''), 'utf8');
+		return lines.length;
+	});
+
+const isQueuedHit = (value: unknown): value is QueuedHit => {
+	if (typeof value !== 'object' || value === null) return false;
+	const { table, row } = value as { table?: unknown; row?: { id?: unknown } };
+	return (
+		(table === 'home_hits' || table === 'video_hits') &&
+		typeof row === 'object' &&
+		row !== null &&
+		typeof row.id === 'string'
+	);
+};
+
+const replayFile = async (file: string, write: (batch: QueuedHit[]) => Promise<void>) => {
+	let replayed = 0;
+	let batch: QueuedHit[] = [];
+	const lines = createInterface({ input: createReadStream(file, 'utf8'), crlfDelay: Infinity });
+	for await (const line of lines) {
+		if (!line.trim()) continue;
+		let parsed: unknown;
+		try {
+			parsed = JSON.parse(line);
+		} catch {
+			// A crash mid-append can leave a torn last line; skip it.
+			continue;
+		}
+		if (!isQueuedHit(parsed)) continue;
+		batch.push(parsed);
+		if (batch.length >= REPLAY_BATCH_SIZE) {
+			await write(batch);
+			replayed += batch.length;
+			batch = [];
+		}
+	}
+	if (batch.length) {
+		await write(batch);
+		replayed += batch.length;
+	}
+	await unlink(file);
+	return replayed;
+};
+
+// Move the live spool aside and write its hits (plus any replay left over from an earlier
+// failed attempt) through `write`. A file that fails stays put for the next try, until it has
+// failed MAX_REPLAY_ATTEMPTS times; the first error is rethrown after the other files have run.
+export async function replaySpool(write: (batch: QueuedHit[]) => Promise<void>): Promise<number> {
+	const file = getSpoolPath();
+	const dir = path.dirname(file);
+	const base = path.basename(file);
+
+	await withSpoolLock(async () => {
+		if (!(await fileSize(file))) return;
+		await rename(file, `${file}.${Date.now()}${REPLAYING_SUFFIX}`);
+	});
+
+	let entries: string[];
+	try {
+		entries = await readdir(dir);
+	} catch {
+		return 0;
+	}
+	const pending = entries
+		.filter((name) => name.startsWith(`${base}.`) && name.endsWith(REPLAYING_SUFFIX))
+		.sort();
+
+	let replayed = 0;
+	let firstError: unknown;
+	for (const name of pending) {
+		const file = path.join(dir, name);
+		try {
+			replayed += await replayFile(file, write);
+			replayFailures.delete(name);
+		} catch (e) {
+			firstError ??= e;
+			const failures = (replayFailures.get(name) ?? 0) + 1;
+			replayFailures.set(name, failures);
+			if (failures < MAX_REPLAY_ATTEMPTS) continue;
+			replayFailures.delete(name);
+			const failed = `${file.slice(0, -REPLAYING_SUFFIX.length)}${FAILED_SUFFIX}`;
+			console.error(`[ANALYTICS] giving up on spool file ${name}; moved to ${failed}`, e);
+			await rename(file, failed).catch((renameError) => {
+				console.error(`[ANALYTICS] failed to move spool file ${name} aside`, renameError);
+			});
+		}
+	}
+	if (firstError !== undefined) throw firstError;
+	return replayed;
+}
@@ -0,0 +1,148 @@
+import { createHash, randomBytes, randomUUID } from 'node:crypto';
+import { isApiKeyScope, type ApiKeyScope, type ApiKeySummary } from '$lib/api/api-keys';
+import { counter } from '$lib/server/metrics';
+import { getPostgresPool } from '$lib/server/postgres';
+
+// Keys look like `psk_<43 base64url chars>` (256 random bits), so a plain SHA-256 is enough
+// to store them: there is nothing to brute-force.
+const KEY_PREFIX = 'psk_';
+const DISPLAY_PREFIX_LENGTH = KEY_PREFIX.length + 8;
+// Don't write last_used_at on every request.
+const LAST_USED_INTERVAL_MS = 60_000;
+
+const apiKeyAuthentications = counter({
+	name: 'api_key_authentications_total',
+	help: 'API key checks, by outcome (accepted, unknown, revoked, expired)',
+	labelNames: ['result'] as const
+});
+
+// The caller behind an API-key request, as seen by route guards.
+export type ApiKeyPrincipal = {
+	id: string;
+	name: string;
+	scopes: ApiKeyScope[];
+};
+
+type ApiKeyRow = {
+	id: string;
+	name: string;
+	key_prefix: string;
+	scopes: string[];
+	created_by: string;
+	created_at: string;
+	expires_at: string | null;
+	last_used_at: string | null;
+	revoked_at: string | null;
+};
+
+const toNumberOrNull = (value: string | null) => (value === null ? null : Number(value));
+
+const fromRow = (row: ApiKeyRow): ApiKeySummary => ({
+	id: row.id,
+	name: row.name,
+	prefix: row.key_prefix,
+	scopes: row.scopes.filter(isApiKeyScope),
+	createdBy: row.created_by,
+	createdAt: Number(row.created_at),
+	expiresAt: toNumberOrNull(row.expires_at),
+	lastUsedAt: toNumberOrNull(row.last_used_at),
+	revokedAt: toNumberOrNull(row.revoked_at)
+});
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const hashApiKey = (key: string) => createHash('sha256').update(key).digest('hex');
+
+export const looksLikeApiKey = (value: string) => value.startsWith(KEY_PREFIX);
+
+// `Authorization: Bearer psk_...` or `X-API-Key: psk_...`; null when the request carries neither.
+export const getApiKeyFromRequest = (request: Request): string | null => {
+	const header = request.headers.get('x-api-key')?.trim();
+	if (header) return header;
+	const match = /^Bearer\s+(\S+)\s*$/i.exec(request.headers.get('authorization') ?? '');
+	return match && looksLikeApiKey(match[1]!) ? match[1]! : null;
+};
+
+export async function listApiKeys(): Promise<ApiKeySummary[]> {
+	const { rows } = await getPostgresPool().query<ApiKeyRow>(
+		`select id, name, key_prefix, scopes, created_by, created_at, expires_at, last_used_at, revoked_at
+		from api_keys order by created_at desc`
+	);
+	return rows.map(fromRow);
+}
+
+// Returns the new key's summary and the key itself, which is not stored and can't be shown again.
+export async function createApiKey(opts: {
+	name: string;
+	scopes: ApiKeyScope[];
+	createdBy: string;
+	expiresAt: number | null;
+}): Promise<{ apiKey: ApiKeySummary; key: string }> {
+	const key = `${KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+	const { rows } = await getPostgresPool().query<ApiKeyRow>(
+		`insert into api_keys (id, name, key_hash, key_prefix, scopes, created_by, created_at, expires_at)
+		values ($1, $2, $3, $4, $5, $6, $7, $8)
+		returning id, name, key_prefix, scopes, created_by, created_at, expires_at, last_used_at, revoked_at`,
+		[
+			randomUUID(),
+			opts.name,
+			hashApiKey(key),
+			key.slice(0, DISPLAY_PREFIX_LENGTH),
+			[...new Set(opts.scopes)],
+			opts.createdBy,
+			Date.now(),
+			opts.expiresAt
+		]
+	);
+	return { apiKey: fromRow(rows[0]!), key };
+}
+
+// Revoked keys stay listed (with their last use) but stop authenticating. Returns false if the
+// key doesn't exist or was already revoked.
+export async function revokeApiKey(id: string): Promise<boolean> {
+	if (!UUID_RE.test(id)) return false;
+	const { rowCount } = await getPostgresPool().query(
+		'update api_keys set revoked_at = $2 where id = $1 and revoked_at is null',
+		[id, Date.now()]
+	);
+	return (rowCount ?? 0) > 0;
+}
+
+// The principal for a presented key, or null if it is unknown, revoked or expired.
+export async function authenticateApiKey(key: string): Promise<ApiKeyPrincipal | null> {
+	if (!looksLikeApiKey(key)) {
+		apiKeyAuthentications.inc({ result: 'unknown' });
+		return null;
+	}
+
+	const pool = getPostgresPool();
+	const { rows } = await pool.query<ApiKeyRow>(
+		`select id, name, key_prefix, scopes, created_by, created_at, expires_at, last_used_at, revoked_at
+		from api_keys where key_hash = $1`,
+		[hashApiKey(key)]
+	);
+	const row = rows[0];
+	if (!row) {
+		apiKeyAuthentications.inc({ result: 'unknown' });
+		return null;
+	}
+
+	const apiKey = fromRow(row);
+	const now = Date.now();
+	if (apiKey.revokedAt !== null) {
+		apiKeyAuthentications.inc({ result: 'revoked' });
+		return null;
+	}
+	if (apiKey.expiresAt !== null && apiKey.expiresAt <= now) {
+		apiKeyAuthentications.inc({ result: 'expired' });
+		return null;
+	}
+
+	if (apiKey.lastUsedAt === null || now - apiKey.lastUsedAt > LAST_USED_INTERVAL_MS) {
+		void pool
+			.query('update api_keys set last_used_at = $2 where id = $1', [apiKey.id, now])
+			.catch((e) => console.error('[API KEYS] failed to record last use', e));
+	}
+	apiKeyAuthentications.inc({ result: 'accepted' });
+	return { id: apiKey.id, name: apiKey.name, scopes: apiKey.scopes };
+}
@@ -0,0 +1,38 @@
+import { error, type RequestEvent } from '@sveltejs/kit';
+import type { ApiKeyScope } from '$lib/api/api-keys';
+import { hasRole, type Role } from '$lib/roles';
+import type { UserCredentials } from '$lib/server/sso-auth';
+
+export type AuthUser = UserCredentials & { roles: Role[] };
+
+// Guard for endpoints that act on a user's behalf. Runs before anything is proxied upstream,
+// so a token without the role never reaches the video service.
+export function requireRole(event: Pick<RequestEvent, 'locals'>, role: Role): AuthUser {
+	const user = event.locals.user;
+	if (!user) error(401, 'Unauthorized');
+	if (!hasRole(user.roles, role)) error(403, `This action requires the ${role} role`);
+	return user;
+}
+
+// For API-key requests only: the key must carry `scope`. Signed-in users pass through.
+export function requireScope(event: Pick<RequestEvent, 'locals'>, scope: ApiKeyScope) {
+	const apiKey = event.locals.apiKey;
+	if (apiKey && !apiKey.scopes.includes(scope)) {
+		error(403, `This API key lacks the ${scope} scope`);
+	}
+}
+
+// Endpoints open to both people and machine clients: a user needs `role`, an API key `scope`.
+export function requireRoleOrScope(
+	event: Pick<RequestEvent, 'locals'>,
+	role: Role,
+	scope: ApiKeyScope
+) {
+	if (event.locals.apiKey) requireScope(event, scope);
+	else requireRole(event, role);
+}
+
+// Who is acting, for ownership checks and audit records. Call after one of the guards above,
+// which guarantees a user or an API key.
+export const actorOf = (locals: App.Locals) =>
+	locals.apiKey ? `apikey:${locals.apiKey.id}` : `user:${locals.user?.id}`;
@@ -0,0 +1,136 @@
+import { GetObjectCommand, PutObjectCommand } from '@aws-sdk/client-s3';
+import { ApiError } from '$lib/api/error';
+import type { VideoCaption } from '$lib/api/videos';
+import { counter } from '$lib/server/metrics';
+import { getSpacesClient, getSpacesConfig, toCaptionKey } from '$lib/server/spaces';
+import { getVideo, recordCaptionLang } from '$lib/server/video-catalog';
+
+// Caption tracks live in the bucket as `_captions/<slug>.<lang>.vtt`. Uploads are stored as
+// WebVTT whatever they came in as, and the player reads them back through /captions so the
+// bucket needs no CORS rules for <track>.
+
+const MAX_CAPTION_BYTES = 1024 * 1024;
+
+const captionUploads = counter({
+	name: 'caption_uploads_total',
+	help: 'Caption files stored, by the format they were uploaded in (vtt, srt)',
+	labelNames: ['format'] as const
+});
+
+const VTT_HEADER = /^WEBVTT(?:[ \t][^\n]*)?(?:\n|$)/;
+// `00:00:01,500 --> 00:00:04,000`, optionally followed by SRT position coordinates.
+const SRT_TIMING = /^(\d+):(\d{2}):(\d{2})[,.](\d{1,3})\s*-->\s*(\d+):(\d{2}):(\d{2})[,.](\d{1,3})/;
+
+const normalizeText = (text: string) => text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+
+const toVttTime = (h: string, m: string, s: string, ms: string) =>
+	`${h.padStart(2, '0')}:${m}:${s}.${ms.padEnd(3, '0')}`;
+
+// SRT's <font> tags and `{\an8}`-style overrides have no WebVTT equivalent; <b>, <i> and <u>
+// mean the same thing in both (lowercased, as WebVTT wants). SRT text is otherwise plain, but
+// in WebVTT a bare & or < starts an entity or tag, so those are escaped.
+const toVttCueText = (line: string) =>
+	line
+		.replace(/<\/?font[^>]*>/gi, '')
+		.replace(/\{\\[^}]*\}/g, '')
+		.replace(/&/g, '&amp;')
+		.replace(
+			/<(?:(\/?)([biu])>)?/gi,
+			(_match, slash: string | undefined, tag: string | undefined) =>
+				tag ? `<${slash ?? ''}${tag.toLowerCase()}>` : '&lt;'
+		)
+		.replace(/-->/g, '--&gt;')
+		.trimEnd();
+
+export function srtToVtt(srt: string): string {
+	const cues: string[] = [];
+	for (const block of normalizeText(srt).split(/\n[ \t]*\n/)) {
+		const lines = block.split('\n').filter((line) => line.trim() !== '');
+		// The cue number is optional in the wild; the timing line is not.
+		const timingAt = lines.findIndex((line) => SRT_TIMING.test(line.trim()));
+		if (timingAt < 0 || timingAt > 1) continue;
+		const t = SRT_TIMING.exec(lines[timingAt]!.trim())!;
+		const text = lines
+			.slice(timingAt + 1)
+			.map(toVttCueText)
+			.filter(Boolean);
+		if (text.length === 0) continue;
+		cues.push(
+			`${toVttTime(t[1]!, t[2]!, t[3]!, t[4]!)} --> ${toVttTime(t[5]!, t[6]!, t[7]!, t[8]!)}\n` +
+				text.join('\n')
+		);
+	}
+	if (cues.length === 0) throw new ApiError('Not a WebVTT or SRT file', 422);
+	return `WEBVTT\n\n${cues.join('\n\n')}\n`;
+}
+
+// WebVTT passes through (minus any BOM and CRLFs); anything else has to parse as SRT.
+export function toWebVtt(text: string): { vtt: string; format: 'vtt' | 'srt' } {
+	const normalized = normalizeText(text);
+	if (VTT_HEADER.test(normalized)) {
+		return { vtt: normalized.endsWith('\n') ? normalized : `${normalized}\n`, format: 'vtt' };
+	}
+	return { vtt: srtToVtt(normalized), format: 'srt' };
+}
+
+// The raw request body as text, refusing anything over MAX_CAPTION_BYTES before reading it when
+// the client says how big it is.
+export async function readCaptionFile(request: Request): Promise<string> {
+	const declared = Number.parseInt(request.headers.get('content-length') ?? '', 10);
+	if (Number.isFinite(declared) && declared > MAX_CAPTION_BYTES) {
+		throw new ApiError(`Caption files are limited to ${MAX_CAPTION_BYTES} bytes`, 413);
+	}
+	const body = new Uint8Array(await request.arrayBuffer());
+	if (body.byteLength > MAX_CAPTION_BYTES) {
+		throw new ApiError(`Caption files are limited to ${MAX_CAPTION_BYTES} bytes`, 413);
+	}
+	if (body.byteLength === 0) throw new ApiError('Empty caption file', 400);
+	try {
+		return new TextDecoder('utf-8', { fatal: true }).decode(body);
+	} catch {
+		throw new ApiError('Caption files must be UTF-8', 415);
+	}
+}
+
+// Store (or replace) one language's track for a video and return all of its tracks.
+export async function putCaption(
+	slug: string,
+	lang: string,
+	text: string
+): Promise<VideoCaption[]> {
+	if (!(await getVideo(slug))) throw new ApiError('Unknown video', 404);
+	const { vtt, format } = toWebVtt(text);
+
+	const { bucket } = getSpacesConfig();
+	await getSpacesClient().send(
+		new PutObjectCommand({
+			Bucket: bucket,
+			Key: toCaptionKey(slug, lang),
+			Body: vtt,
+			ContentType: 'text/vtt; charset=utf-8'
+		})
+	);
+	captionUploads.inc({ format });
+
+	const captions = await recordCaptionLang(slug, lang);
+	// The video went away between the check and the write.
+	if (!captions) throw new ApiError('Unknown video', 404);
+	return captions;
+}
+
+// A stored track, or null if there isn't one. Removed videos keep their files until they are
+// purged, so their tracks are hidden here like the video itself.
+export async function getCaption(slug: string, lang: string): Promise<string | null> {
+	if (!(await getVideo(slug))) return null;
+	const { bucket } = getSpacesConfig();
+	try {
+		const res = await getSpacesClient().send(
+			new GetObjectCommand({ Bucket: bucket, Key: toCaptionKey(slug, lang) })
+		);
+		return (await res.Body?.transformToString('utf-8')) ?? null;
+	} catch (e) {
+		const err = e as { name?: string; $metadata?: { httpStatusCode?: number } };
+		if (err?.name === 'NoSuchKey' || err?.$metadata?.httpStatusCode === 404) return null;
+		throw e;
+	}
+}
@@ -0,0 +1,62 @@
+// Consecutive-failure circuit breaker with exponential backoff. After `threshold` failures in a
+// row the circuit opens and callers are turned away without touching the upstream; once the
+// backoff elapses a single probe is let through, and its outcome closes the circuit or reopens
+// it with twice the backoff (up to `maxBackoffMs`).
+
+export type CircuitBreakerOptions = {
+	threshold: number;
+	baseBackoffMs: number;
+	maxBackoffMs: number;
+};
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export class CircuitBreaker {
+	private failures = 0;
+	private opens = 0;
+	private openUntil = 0;
+	private probing = false;
+
+	// Read on every decision so env changes apply without a restart.
+	constructor(private readonly options: () => CircuitBreakerOptions) {}
+
+	get state(): CircuitState {
+		if (this.opens === 0) return 'closed';
+		return Date.now() < this.openUntil ? 'open' : 'half-open';
+	}
+
+	// Whether a call may go upstream now. In half-open state only one probe is admitted at a
+	// time; it must be settled with recordSuccess or recordFailure.
+	tryAcquire(): boolean {
+		const state = this.state;
+		if (state === 'closed') return true;
+		if (state === 'open' || this.probing) return false;
+		this.probing = true;
+		return true;
+	}
+
+	recordSuccess() {
+		this.failures = 0;
+		this.opens = 0;
+		this.openUntil = 0;
+		this.probing = false;
+	}
+
+	recordFailure() {
+		// Late results from calls admitted before the circuit opened don't extend the backoff.
+		if (this.state === 'open') return;
+		const { threshold, baseBackoffMs, maxBackoffMs } = this.options();
+		this.failures += 1;
+		// A failed probe reopens at once; otherwise wait for the threshold.
+		if (!this.probing && this.failures < threshold) return;
+		this.probing = false;
+		this.opens += 1;
+		const backoff = Math.min(maxBackoffMs, baseBackoffMs * 2 ** (this.opens - 1));
+		this.openUntil = Date.now() + backoff;
+	}
+
+	// Milliseconds until the next probe is allowed (0 when not open).
+	retryAfterMs(): number {
+		return this.state === 'open' ? this.openUntil - Date.now() : 0;
+	}
+}
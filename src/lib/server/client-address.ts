@@ -0,0 +1,220 @@
+import { env } from '$env/dynamic/private';
+import type { RequestEvent } from '@sveltejs/kit';
+import { createHmac } from 'node:crypto';
+import { BlockList, isIP } from 'node:net';
+
+// Client address resolution behind proxies. Forwarding headers are only believed when the
+// hop that sent them is a trusted proxy (TRUSTED_PROXIES); the chain is then walked from the
+// nearest hop outwards and the first untrusted address is the client. By default loopback and
+// private-range peers are trusted, which covers the k8s ingress; set TRUSTED_PROXIES to an
+// empty string to always use the socket peer address and ignore the headers. Only the one
+// header the ingress writes (CLIENT_IP_HEADER) is read: the others arrive from the client
+// untouched, and anything could be in them.
+
+const SHORTCUTS: Record<string, string[]> = {
+	loopback: ['127.0.0.0/8', '::1/128'],
+	private: ['10.0.0.0/8', '172.16.0.0/12', '192.168.0.0/16', 'fc00::/7'],
+	linklocal: ['169.254.0.0/16', 'fe80::/10']
+};
+
+let trusted: { raw: string; list: BlockList } | undefined;
+
+const DEFAULT_TRUSTED_PROXIES = 'loopback,private';
+
+// TRUSTED_PROXIES="10.0.0.0/8,2001:db8::/32,loopback" (CIDRs, bare IPs, or the shortcuts above).
+const getTrustedProxies = () => {
+	const raw = env.TRUSTED_PROXIES ?? DEFAULT_TRUSTED_PROXIES;
+	if (trusted?.raw === raw) return trusted.list;
+
+	const list = new BlockList();
+	const entries = raw
+		.split(',')
+		.map((e) => e.trim().toLowerCase())
+		.filter(Boolean)
+		.flatMap((e) => SHORTCUTS[e] ?? [e]);
+	for (const entry of entries) {
+		const [address, prefix] = entry.split('/');
+		const family = isIP(address ?? '');
+		if (!family) {
+			console.warn(`[CLIENT-ADDRESS] ignoring invalid TRUSTED_PROXIES entry "${entry}"`);
+			continue;
+		}
+		const type = family === 4 ? 'ipv4' : 'ipv6';
+		const bits = prefix === undefined ? (family === 4 ? 32 : 128) : Number.parseInt(prefix, 10);
+		list.addSubnet(address!, bits, type);
+	}
+	trusted = { raw, list };
+	return list;
+};
+
+// Strip ports, brackets, zone ids and IPv4-mapped prefixes; null if it isn't an IP at all
+// (e.g. Forwarded's "unknown" or obfuscated "_hidden" identifiers).
+export const normalizeIp = (value: string | null | undefined): string | null => {
+	let ip = (value ?? '').trim().replace(/^"|"$/g, '');
+	if (!ip) return null;
+	if (ip.startsWith('[')) {
+		const end = ip.indexOf(']');
+		ip = end === -1 ? ip.slice(1) : ip.slice(1, end);
+	} else if (/^\d{1,3}(\.\d{1,3}){3}:\d+$/.test(ip)) {
+		ip = ip.slice(0, ip.lastIndexOf(':'));
+	}
+	ip = ip.replace(/%.*$/, '').toLowerCase();
+	const mapped = /^::ffff:(\d{1,3}(\.\d{1,3}){3})$/.exec(ip);
+	if (mapped) ip = mapped[1]!;
+	return isIP(ip) ? ip : null;
+};
+
+const isTrusted = (ip: string) => getTrustedProxies().check(ip, isIP(ip) === 4 ? 'ipv4' : 'ipv6');
+
+// True when `ip` is one of our own proxy hops rather than a client, which is what
+// resolveClientAddress returns when a proxied request carried no usable forwarding headers.
+// Such an address is shared by everyone behind that proxy.
+export const isTrustedProxy = (ip: string) => {
+	const normalized = normalizeIp(ip);
+	return normalized !== null && isTrusted(normalized);
+};
+
+// `Forwarded: for=192.0.2.43, for="[2001:db8::1]:4711";proto=https` -> ['192.0.2.43', '2001:db8::1']
+const parseForwarded = (header: string): string[] => {
+	const hops: string[] = [];
+	for (const element of header.split(',')) {
+		for (const pair of element.split(';')) {
+			const eq = pair.indexOf('=');
+			if (eq === -1) continue;
+			if (pair.slice(0, eq).trim().toLowerCase() !== 'for') continue;
+			// Keep a placeholder for unparseable hops so the chain positions stay right.
+			hops.push(normalizeIp(pair.slice(eq + 1)) ?? '');
+		}
+	}
+	return hops;
+};
+
+type ClientIpHeader = 'x-forwarded-for' | 'forwarded' | 'x-real-ip';
+
+let warnedClientIpHeader = false;
+
+// CLIENT_IP_HEADER=x-forwarded-for (default) | forwarded | x-real-ip
+const getClientIpHeader = (): ClientIpHeader => {
+	const raw = (env.CLIENT_IP_HEADER ?? '').trim().toLowerCase();
+	if (!raw) return 'x-forwarded-for';
+	if (raw === 'x-forwarded-for' || raw === 'forwarded' || raw === 'x-real-ip') return raw;
+	if (!warnedClientIpHeader) {
+		warnedClientIpHeader = true;
+		console.warn(
+			`[CLIENT-ADDRESS] invalid CLIENT_IP_HEADER="${env.CLIENT_IP_HEADER}", using x-forwarded-for`
+		);
+	}
+	return 'x-forwarded-for';
+};
+
+const forwardedChain = (headers: Headers): string[] => {
+	const header = getClientIpHeader();
+	const value = headers.get(header);
+	if (!value) return [];
+	if (header === 'forwarded') return parseForwarded(value);
+	if (header === 'x-forwarded-for') return value.split(',').map((hop) => normalizeIp(hop) ?? '');
+	const realIp = normalizeIp(value);
+	return realIp ? [realIp] : [];
+};
+
+export function resolveClientAddress(
+	event: Pick<RequestEvent, 'request' | 'getClientAddress'>
+): string {
+	let peer: string;
+	try {
+		peer = event.getClientAddress();
+	} catch {
+		peer = '';
+	}
+	let client = normalizeIp(peer) ?? peer;
+	if (!client || !isIP(client) || !isTrusted(client)) return client || 'unknown';
+
+	// Walk from the proxy nearest to us outwards; stop at the first hop we don't trust.
+	const chain = forwardedChain(event.request.headers);
+	for (let i = chain.length - 1; i >= 0; i--) {
+		const hop = chain[i];
+		// A garbled hop can't be attributed; the last trusted address is the best we have.
+		if (!hop) break;
+		client = hop;
+		if (!isTrusted(hop)) break;
+	}
+	return client;
+}
+
+// Expects an address that already passed isIP() === 6.
+const expandIpv6 = (ip: string): number[] => {
+	// Rewrite an embedded IPv4 tail (e.g. 64:ff9b::192.0.2.1) as two hextets.
+	const hex = ip.replace(/(\d+)\.(\d+)\.(\d+)\.(\d+)$/, (_, a, b, c, d) =>
+		[(a << 8) | b, (c << 8) | d].map((n) => n.toString(16)).join(':')
+	);
+	const [left, right] = hex.split('::');
+	const parse = (part: string | undefined) =>
+		part ? part.split(':').map((h) => Number.parseInt(h, 16)) : [];
+	const l = parse(left);
+	const r = parse(right);
+	return [...l, ...new Array<number>(8 - l.length - r.length).fill(0), ...r];
+};
+
+// Coarse network bucket: IPv4 /24 or IPv6 /48 (roughly one subscriber / site).
+export function ipBucket(ip: string): string {
+	const normalized = normalizeIp(ip);
+	if (!normalized) return 'other';
+	if (isIP(normalized) === 4) {
+		const parts = normalized.split('.');
+		return `${parts[0]}.${parts[1]}.${parts[2]}.0/24`;
+	}
+	return `${expandIpv6(normalized)
+		.slice(0, 3)
+		.map((h) => h.toString(16))
+		.join(':')}::/48`;
+}
+
+// Per-client identity for rate limiting: the address itself for IPv4, the /64 for IPv6, since
+// one host typically holds a whole /64 and could otherwise rotate through it.
+export function ipClientKey(ip: string): string {
+	const normalized = normalizeIp(ip);
+	if (!normalized) return 'other';
+	if (isIP(normalized) === 4) return normalized;
+	return `${expandIpv6(normalized)
+		.slice(0, 4)
+		.map((h) => h.toString(16))
+		.join(':')}::/64`;
+}
+
+type IpStorageMode = 'raw' | 'truncate' | 'hmac';
+
+let warnedMissingKey = false;
+
+const getIpStorageMode = (): IpStorageMode => {
+	const mode = (env.ANALYTICS_IP_MODE ?? 'raw').trim().toLowerCase();
+	if (mode === 'truncate') return 'truncate';
+	if (mode === 'hmac') {
+		if (env.ANALYTICS_IP_HMAC_KEY) return 'hmac';
+		if (!warnedMissingKey) {
+			warnedMissingKey = true;
+			console.warn(
+				'[CLIENT-ADDRESS] ANALYTICS_IP_MODE=hmac without ANALYTICS_IP_HMAC_KEY; truncating'
+			);
+		}
+		return 'truncate';
+	}
+	return 'raw';
+};
+
+// The form an address is persisted in (analytics rows, logs), per ANALYTICS_IP_MODE:
+// - raw:      as resolved
+// - truncate: its /24 or /48 bucket
+// - hmac:     keyed SHA-256, stable per address (so unique-viewer counts still work) but not
+//             reversible without the key
+export function toStoredIp(ip: string): string {
+	switch (getIpStorageMode()) {
+		case 'truncate':
+			return ipBucket(ip);
+		case 'hmac':
+			return `hmac:${createHmac('sha256', env.ANALYTICS_IP_HMAC_KEY!)
+				.update(normalizeIp(ip) ?? ip)
+				.digest('hex')}`;
+		default:
+			return ip;
+	}
+}
@@ -0,0 +1,46 @@
+import { env } from '$env/dynamic/private';
+
+// The /embed/<slug> player is meant to be framed by other sites. EMBED_FRAME_ANCESTORS is the
+// CSP frame-ancestors source list allowed to frame it: space- or comma-separated, e.g.
+// "https://blog.example.com https://*.example.org", "'self'", or "*" (the default) for anyone.
+
+const SOURCE_RE = /^(\*|'self'|'none'|https?:|(https?:\/\/)?(\*\.)?[a-z0-9.-]+(:(\d+|\*))?)$/i;
+
+let parsed: { raw: string; value: string } | undefined;
+
+export const getEmbedFrameAncestors = () => {
+	const raw = env.EMBED_FRAME_ANCESTORS ?? '';
+	if (parsed?.raw === raw) return parsed.value;
+
+	const sources: string[] = [];
+	for (const source of raw.split(/[\s,]+/).filter(Boolean)) {
+		// A stray `;` or quote would let the env var rewrite the rest of the policy.
+		if (SOURCE_RE.test(source)) sources.push(source);
+		else console.warn(`[EMBED] ignoring invalid EMBED_FRAME_ANCESTORS entry "${source}"`);
+	}
+	parsed = { raw, value: sources.length ? sources.join(' ') : '*' };
+	return parsed.value;
+};
+
+export type EmbedOptions = {
+	autoplay: boolean;
+	muted: boolean;
+	loop: boolean;
+};
+
+const readFlag = (value: string | null, fallback: boolean) => {
+	if (value === '1' || value === 'true') return true;
+	if (value === '0' || value === 'false') return false;
+	return fallback;
+};
+
+// `?autoplay=1&mute=0&loop=0`. Browsers only autoplay muted video, so autoplay implies mute
+// unless `mute=0` is given explicitly; loop is on by default, like the feed.
+export const parseEmbedOptions = (params: URLSearchParams): EmbedOptions => {
+	const autoplay = readFlag(params.get('autoplay'), false);
+	return {
+		autoplay,
+		muted: readFlag(params.get('mute'), autoplay),
+		loop: readFlag(params.get('loop'), true)
+	};
+};
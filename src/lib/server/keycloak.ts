@@ -1,12 +1,28 @@
+import { dev } from '$app/environment';
 import { env } from '$env/dynamic/private';
-import { createRemoteJWKSet, jwtVerify, type JWTPayload } from 'jose';
+import { createHash } from 'node:crypto';
+import { createRemoteJWKSet, decodeJwt, jwtVerify, type JWTPayload } from 'jose';
+import { isRole, type Role } from '$lib/roles';
+import { counter } from '$lib/server/metrics';
 
 type KeycloakConfig = {
 	issuer: string;
+	// Issuers a token may carry; defaults to just `issuer`.
+	acceptedIssuers: string[];
+	clockToleranceSeconds: number;
 	expectedClientId: string;
 	jwksUrl: URL;
 };
 
+const DEFAULT_CLOCK_SKEW_SECONDS = 30;
+const VERIFIED_CACHE_MAX = 10_000;
+
+const tokenVerifications = counter({
+	name: 'auth_token_verifications_total',
+	help: 'Access token verifications, by outcome (cached, verified, rejected)',
+	labelNames: ['result'] as const
+});
+
 const normalizeEndpoint = (value: string) => value.replace(/\/+$/, '');
 const normalizeIssuer = (value: string) => value.replace(/\/+$/, '');
 
@@ -24,13 +40,54 @@ const getKeycloakConfig = (): KeycloakConfig | null => {
 	const issuer = looksLikeRealmIssuer(normalized)
 		? normalized
 		: `${normalized}/realms/${encodeURIComponent(realm)}`;
+	// KC_ACCEPTED_ISSUERS covers tokens minted under another hostname for the same realm
+	// (e.g. the public URL vs. the in-cluster service).
+	const accepted = (env.KC_ACCEPTED_ISSUERS ?? '')
+		.split(',')
+		.map((value) => normalizeIssuer(value.trim()))
+		.filter(Boolean);
+	const skew = Number.parseInt(env.KC_CLOCK_SKEW_SECONDS ?? '', 10);
 	return {
 		issuer,
+		acceptedIssuers: accepted.length ? accepted : [issuer],
+		clockToleranceSeconds: Number.isFinite(skew) && skew >= 0 ? skew : DEFAULT_CLOCK_SKEW_SECONDS,
 		expectedClientId: clientId,
 		jwksUrl: new URL(`${issuer}/protocol/openid-connect/certs`)
 	};
 };
 
+// Verified payloads keyed by a hash of the token, kept until the token's own `exp`, so
+// requests carrying the same token skip the signature check.
+const verifiedCache = new Map<string, { payload: JWTPayload; expiresAt: number }>();
+
+const tokenCacheKey = (token: string) => createHash('sha256').update(token).digest('base64url');
+
+const getCachedPayload = (key: string) => {
+	const entry = verifiedCache.get(key);
+	if (!entry) return null;
+	if (entry.expiresAt <= Date.now()) {
+		verifiedCache.delete(key);
+		return null;
+	}
+	return entry.payload;
+};
+
+const cachePayload = (key: string, payload: JWTPayload) => {
+	if (typeof payload.exp !== 'number') return;
+	if (verifiedCache.size >= VERIFIED_CACHE_MAX) {
+		// Drop expired entries first; if that frees nothing, the oldest insertions go.
+		const now = Date.now();
+		for (const [k, entry] of verifiedCache) {
+			if (entry.expiresAt <= now) verifiedCache.delete(k);
+		}
+		for (const k of verifiedCache.keys()) {
+			if (verifiedCache.size < VERIFIED_CACHE_MAX) break;
+			verifiedCache.delete(k);
+		}
+	}
+	verifiedCache.set(key, { payload, expiresAt: payload.exp * 1000 });
+};
+
 let jwks:
 	| {
 		config: KeycloakConfig;
@@ -53,31 +110,143 @@ const getJwks = () => {
 			config,
 			keySet: createRemoteJWKSet(config.jwksUrl)
 		};
+		verifiedCache.clear();
+	} else if (
+		jwks.config.clockToleranceSeconds !== config.clockToleranceSeconds ||
+		jwks.config.acceptedIssuers.join(',') !== config.acceptedIssuers.join(',')
+	) {
+		jwks = { ...jwks, config };
+		verifiedCache.clear();
 	}
 	return jwks;
 };
 
 export const isKeycloakEnabled = () => Boolean(getKeycloakConfig());
 
+export type KeycloakOidcEndpoints = {
+	clientId: string;
+	authorizationUrl: string;
+	tokenUrl: string;
+	endSessionUrl: string;
+};
+
+// Standard Keycloak OIDC endpoints for the configured realm, for the browser login flow.
+export const getKeycloakOidcEndpoints = (): KeycloakOidcEndpoints | null => {
+	const config = getKeycloakConfig();
+	if (!config) return null;
+	const base = `${config.issuer}/protocol/openid-connect`;
+	return {
+		clientId: config.expectedClientId,
+		authorizationUrl: `${base}/auth`,
+		tokenUrl: `${base}/token`,
+		endSessionUrl: `${base}/logout`
+	};
+};
+
 export async function verifyKeycloakAccessToken(token: string): Promise<JWTPayload> {
 	const cached = getJwks();
 	if (!cached) {
 		throw new Error('Keycloak is not configured (set KC_ENDPOINT, KC_REALM, KC_CLIENT_ID)');
 	}
 
-	// Verify signature (and exp/nbf) first, then validate issuer/audience ourselves.
-	const { payload } = await jwtVerify(token, cached.keySet);
-
-	//const expectedIssuer = normalizeIssuer(cached.config.issuer);
-	//const actualIssuer = typeof payload.iss === 'string' ? normalizeIssuer(payload.iss) : null;
-	
-	const expected = cached.config.expectedClientId;
-	const aud = payload.aud;
-	const azp = typeof payload.azp === 'string' ? payload.azp : null;
-	const audOk = typeof aud === 'string' ? aud === expected : Array.isArray(aud) ? aud.includes(expected) : false;
-	const azpOk = azp === expected;
-	if (!audOk && !azpOk) {
-		throw new Error(`Keycloak token is not issued for client "${expected}"`);
+	const key = tokenCacheKey(token);
+	const hit = getCachedPayload(key);
+	if (hit) {
+		tokenVerifications.inc({ result: 'cached' });
+		return hit;
+	}
+
+	try {
+		// Signature, exp/nbf (with KC_CLOCK_SKEW_SECONDS of slack); issuer/audience below.
+		const { payload } = await jwtVerify(token, cached.keySet, {
+			clockTolerance: cached.config.clockToleranceSeconds,
+			requiredClaims: ['exp']
+		});
+
+		const actualIssuer = typeof payload.iss === 'string' ? normalizeIssuer(payload.iss) : null;
+		if (!actualIssuer || !cached.config.acceptedIssuers.includes(actualIssuer)) {
+			throw new Error(`Keycloak token issuer "${payload.iss}" is not accepted`);
+		}
+
+		const expected = cached.config.expectedClientId;
+		const aud = payload.aud;
+		const azp = typeof payload.azp === 'string' ? payload.azp : null;
+		const audOk = typeof aud === 'string' ? aud === expected : Array.isArray(aud) ? aud.includes(expected) : false;
+		const azpOk = azp === expected;
+		if (!audOk && !azpOk) {
+			throw new Error(`Keycloak token is not issued for client "${expected}"`);
+		}
+
+		cachePayload(key, payload);
+		tokenVerifications.inc({ result: 'verified' });
+		return payload;
+	} catch (e) {
+		tokenVerifications.inc({ result: 'rejected' });
+		throw e;
+	}
+}
+
+// ID tokens from the authorization-code flow: same keys and issuers as access tokens, but the
+// audience must be our client and the nonce must match the one sent with the login request.
+export async function verifyKeycloakIdToken(token: string, nonce: string): Promise<JWTPayload> {
+	const cached = getJwks();
+	if (!cached) {
+		throw new Error('Keycloak is not configured (set KC_ENDPOINT, KC_REALM, KC_CLIENT_ID)');
+	}
+
+	const { payload } = await jwtVerify(token, cached.keySet, {
+		issuer: cached.config.acceptedIssuers,
+		audience: cached.config.expectedClientId,
+		clockTolerance: cached.config.clockToleranceSeconds,
+		requiredClaims: ['exp', 'sub']
+	});
+	if (payload.nonce !== nonce) {
+		throw new Error('Keycloak ID token nonce does not match the login request');
 	}
 	return payload;
 }
+
+// AUTH_FAIL_CLOSED (default: on outside dev). When on, a token that can't be verified (e.g.
+// Keycloak isn't configured) never yields a user; when off, its claims are trusted as decoded.
+export const isAuthFailClosed = () => {
+	const raw = (env.AUTH_FAIL_CLOSED ?? '').trim().toLowerCase();
+	if (!raw) return !dev;
+	return raw !== 'false' && raw !== '0';
+};
+
+let warnedUnverified = false;
+
+// Claims for a request's access token, or null when they can't be trusted. Throws if the
+// token is present but fails verification.
+export async function getVerifiedClaims(token: string): Promise<JWTPayload | null> {
+	if (isKeycloakEnabled()) return verifyKeycloakAccessToken(token);
+	if (isAuthFailClosed()) {
+		if (!warnedUnverified) {
+			warnedUnverified = true;
+			console.warn('[AUTH] Keycloak is not configured; ignoring access tokens (AUTH_FAIL_CLOSED)');
+		}
+		return null;
+	}
+	return decodeJwt(token);
+}
+
+const claimRoles = (value: unknown): string[] => {
+	const roles = (value as { roles?: unknown } | null | undefined)?.roles;
+	return Array.isArray(roles) ? roles.filter((r): r is string => typeof r === 'string') : [];
+};
+
+// App roles granted by a token: realm roles plus client roles for KC_CLIENT_ID, matched by
+// name (case-insensitive). Anything that isn't an app role (offline_access, uma_authorization,
+// ...) is ignored. Every signed-in user is at least AUTH_DEFAULT_ROLE (viewer unless set to "none").
+export function rolesFromClaims(payload: JWTPayload): Role[] {
+	const clientId = (env.KC_CLIENT_ID ?? '').trim();
+	const resourceAccess = payload.resource_access as Record<string, unknown> | undefined;
+	const names = [
+		...claimRoles(payload.realm_access),
+		...(clientId ? claimRoles(resourceAccess?.[clientId]) : [])
+	].map((r) => r.toLowerCase());
+
+	const defaultRole = (env.AUTH_DEFAULT_ROLE ?? 'viewer').trim().toLowerCase();
+	if (isRole(defaultRole)) names.push(defaultRole);
+	return [...new Set(names.filter(isRole))];
+}
@@ -0,0 +1,220 @@
+import { env } from '$env/dynamic/private';
+
+// Minimal Prometheus client: counters, gauges and histograms rendered in the text exposition
+// format. Every metric has a fixed set of label names and a cap on distinct label sets; once
+// the cap is hit, new series are folded into a single `__overflow__` series so a noisy label
+// can't grow memory (or the scrape) without bound.
+
+type Labels = Record<string, string>;
+
+type MetricOptions<L extends string> = {
+	name: string;
+	help: string;
+	labelNames?: readonly L[];
+	maxSeries?: number;
+};
+
+const OVERFLOW = '__overflow__';
+
+const getDefaultMaxSeries = () => {
+	const parsed = Number.parseInt(env.METRICS_MAX_SERIES ?? '', 10);
+	return Number.isFinite(parsed) && parsed > 0 ? parsed : 1000;
+};
+
+// Label values may contain anything (user-agents, slugs); escape per the exposition format.
+const escapeLabelValue = (value: string) =>
+	value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+
+const escapeHelp = (value: string) => value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+
+const formatValue = (value: number) => {
+	if (Number.isNaN(value)) return 'NaN';
+	if (value === Infinity) return '+Inf';
+	if (value === -Infinity) return '-Inf';
+	return String(value);
+};
+
+const formatLabels = (names: readonly string[], values: readonly string[], extra?: Labels) => {
+	const parts = names.map((name, i) => `${name}="${escapeLabelValue(values[i] ?? '')}"`);
+	for (const [name, value] of Object.entries(extra ?? {})) {
+		parts.push(`${name}="${escapeLabelValue(value)}"`);
+	}
+	return parts.length ? `{${parts.join(',')}}` : '';
+};
+
+abstract class Metric<L extends string, S> {
+	readonly name: string;
+	readonly help: string;
+	readonly labelNames: readonly L[];
+	protected readonly maxSeries: number;
+	protected readonly series = new Map<string, { values: string[]; state: S }>();
+
+	protected abstract readonly type: 'counter' | 'gauge' | 'histogram';
+
+	constructor({ name, help, labelNames, maxSeries }: MetricOptions<L>) {
+		this.name = name;
+		this.help = help;
+		this.labelNames = labelNames ?? [];
+		this.maxSeries = maxSeries ?? getDefaultMaxSeries();
+	}
+
+	protected abstract initialState(): S;
+
+	protected abstract renderSeries(labels: readonly string[], state: S): string[];
+
+	protected getSeries(labels: Partial<Record<L, string>>): S {
+		let values = this.labelNames.map((name) => labels[name] ?? '');
+		let key = JSON.stringify(values);
+		if (!this.series.has(key) && this.series.size >= this.maxSeries) {
+			values = this.labelNames.map(() => OVERFLOW);
+			key = JSON.stringify(values);
+		}
+		let entry = this.series.get(key);
+		if (!entry) {
+			entry = { values, state: this.initialState() };
+			this.series.set(key, entry);
+		}
+		return entry.state;
+	}
+
+	render(): string {
+		const lines = [
+			`# HELP ${this.name} ${escapeHelp(this.help)}`,
+			`# TYPE ${this.name} ${this.type}`
+		];
+		for (const { values, state } of this.series.values()) {
+			lines.push(...this.renderSeries(values, state));
+		}
+		return lines.join('\n');
+	}
+}
+
+export class Counter<L extends string = never> extends Metric<L, { value: number }> {
+	protected readonly type = 'counter';
+
+	protected initialState() {
+		return { value: 0 };
+	}
+
+	inc(labels: Partial<Record<L, string>> = {}, by = 1) {
+		if (by < 0) throw new Error(`Counter ${this.name} cannot decrease`);
+		this.getSeries(labels).value += by;
+	}
+
+	protected renderSeries(labels: readonly string[], state: { value: number }) {
+		return [`${this.name}${formatLabels(this.labelNames, labels)} ${formatValue(state.value)}`];
+	}
+}
+
+export class Gauge<L extends string = never> extends Metric<L, { value: number }> {
+	protected readonly type = 'gauge';
+	private readonly collect?: (gauge: Gauge<L>) => void;
+
+	constructor(options: MetricOptions<L> & { collect?: (gauge: Gauge<L>) => void }) {
+		super(options);
+		this.collect = options.collect;
+	}
+
+	protected initialState() {
+		return { value: 0 };
+	}
+
+	set(labels: Partial<Record<L, string>>, value: number) {
+		this.getSeries(labels).value = value;
+	}
+
+	inc(labels: Partial<Record<L, string>> = {}, by = 1) {
+		this.getSeries(labels).value += by;
+	}
+
+	dec(labels: Partial<Record<L, string>> = {}, by = 1) {
+		this.getSeries(labels).value -= by;
+	}
+
+	render() {
+		// Gauges backed by live state read it at scrape time.
+		this.collect?.(this);
+		return super.render();
+	}
+
+	protected renderSeries(labels: readonly string[], state: { value: number }) {
+		return [`${this.name}${formatLabels(this.labelNames, labels)} ${formatValue(state.value)}`];
+	}
+}
+
+type HistogramState = { counts: number[]; sum: number; count: number };
+
+export const DEFAULT_DURATION_BUCKETS = [
+	0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10
+] as const;
+
+export class Histogram<L extends string = never> extends Metric<L, HistogramState> {
+	protected readonly type = 'histogram';
+	private readonly buckets: readonly number[];
+
+	constructor(options: MetricOptions<L> & { buckets?: readonly number[] }) {
+		super(options);
+		this.buckets = [...(options.buckets ?? DEFAULT_DURATION_BUCKETS)].sort((a, b) => a - b);
+	}
+
+	protected initialState(): HistogramState {
+		return { counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+	}
+
+	observe(labels: Partial<Record<L, string>>, value: number) {
+		const state = this.getSeries(labels);
+		for (let i = 0; i < this.buckets.length; i++) {
+			if (value <= this.buckets[i]!) state.counts[i]! += 1;
+		}
+		state.sum += value;
+		state.count += 1;
+	}
+
+	// Returns a function that records the elapsed seconds when called.
+	startTimer(labels: Partial<Record<L, string>> = {}) {
+		const start = performance.now();
+		return (extra: Partial<Record<L, string>> = {}) => {
+			this.observe({ ...labels, ...extra }, (performance.now() - start) / 1000);
+		};
+	}
+
+	protected renderSeries(labels: readonly string[], state: HistogramState) {
+		const lines = this.buckets.map(
+			(le, i) =>
+				`${this.name}_bucket${formatLabels(this.labelNames, labels, { le: formatValue(le) })} ${state.counts[i]}`
+		);
+		lines.push(
+			`${this.name}_bucket${formatLabels(this.labelNames, labels, { le: '+Inf' })} ${state.count}`,
+			`${this.name}_sum${formatLabels(this.labelNames, labels)} ${formatValue(state.sum)}`,
+			`${this.name}_count${formatLabels(this.labelNames, labels)} ${state.count}`
+		);
+		return lines;
+	}
+}
+
+type Renderable = { readonly name: string; render(): string };
+
+const registry = new Map<string, Renderable>();
+
+// Modules define their metrics once at import time. Re-registering a name (e.g. after an HMR
+// reload in dev) returns the existing instance so values survive.
+const register = <M extends Renderable>(metric: M): M => {
+	const existing = registry.get(metric.name);
+	if (existing) return existing as M;
+	registry.set(metric.name, metric);
+	return metric;
+};
+
+export const counter = <L extends string = never>(options: MetricOptions<L>) =>
+	register(new Counter<L>(options));
+
+export const gauge = <L extends string = never>(
+	options: MetricOptions<L> & { collect?: (gauge: Gauge<L>) => void }
+) => register(new Gauge<L>(options));
+
+export const histogram = <L extends string = never>(
+	options: MetricOptions<L> & { buckets?: readonly number[] }
+) => register(new Histogram<L>(options));
+
+export const renderMetrics = () =>
+	[...registry.values()].map((metric) => metric.render()).join('\n\n') + '\n';
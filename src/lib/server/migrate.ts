@@ -0,0 +1,100 @@
+import { env } from '$env/dynamic/private';
+import { createHash } from 'node:crypto';
+import type pg from 'pg';
+
+type Migration = {
+	version: number;
+	name: string;
+	sql: string;
+	checksum: string;
+};
+
+// Arbitrary app-wide key; every replica blocks on it so only one applies migrations at a time.
+const MIGRATION_LOCK_KEY = 7_410_000;
+
+// Migrations live next to this file as `NNNN_description.sql` and are bundled at build time.
+// They run in version order, each in its own transaction, and are never edited once shipped:
+// add a new file instead.
+const sources = import.meta.glob('./migrations/*.sql', {
+	query: '?raw',
+	import: 'default',
+	eager: true
+}) as Record<string, string>;
+
+const loadMigrations = (): Migration[] => {
+	const migrations = Object.entries(sources).map(([path, sql]) => {
+		const file = path.split('/').at(-1) ?? path;
+		const match = /^(\d+)_(.+)\.sql$/.exec(file);
+		if (!match) throw new Error(`Invalid migration filename: ${file}`);
+		return {
+			version: Number.parseInt(match[1]!, 10),
+			name: match[2]!,
+			sql,
+			checksum: createHash('sha256').update(sql).digest('hex')
+		};
+	});
+	migrations.sort((a, b) => a.version - b.version);
+	for (let i = 1; i < migrations.length; i++) {
+		if (migrations[i]!.version === migrations[i - 1]!.version) {
+			throw new Error(`Duplicate migration version: ${migrations[i]!.version}`);
+		}
+	}
+	return migrations;
+};
+
+export const isAutoMigrateEnabled = () => env.POSTGRES_AUTO_MIGRATE !== 'false';
+
+// Apply any pending migrations. Safe to call from every replica at startup.
+export async function runMigrations(pool: pg.Pool): Promise<number[]> {
+	const migrations = loadMigrations();
+	const client = await pool.connect();
+	try {
+		await client.query('select pg_advisory_lock($1)', [MIGRATION_LOCK_KEY]);
+		try {
+			await client.query(`create table if not exists schema_migrations (
+				version integer primary key,
+				name text not null,
+				checksum text not null,
+				applied_at bigint not null
+			)`);
+
+			const { rows } = await client.query<{ version: number; checksum: string }>(
+				'select version, checksum from schema_migrations'
+			);
+			const applied = new Map(rows.map((r) => [r.version, r.checksum]));
+
+			const ran: number[] = [];
+			for (const migration of migrations) {
+				const checksum = applied.get(migration.version);
+				if (checksum !== undefined) {
+					if (checksum !== migration.checksum) {
+						console.warn(
+							`[MIGRATE] ${migration.version}_${migration.name} changed after it was applied`
+						);
+					}
+					continue;
+				}
+
+				await client.query('begin');
+				try {
+					await client.query(migration.sql);
+					await client.query(
+						'insert into schema_migrations (version, name, checksum, applied_at) values ($1, $2, $3, $4)',
+						[migration.version, migration.name, migration.checksum, Date.now()]
+					);
+					await client.query('commit');
+				} catch (e) {
+					await client.query('rollback').catch(() => {});
+					throw new Error(`Migration ${migration.version}_${migration.name} failed`, { cause: e });
+				}
+				console.log(`[MIGRATE] applied ${migration.version}_${migration.name}`);
+				ran.push(migration.version);
+			}
+			return ran;
+		} finally {
+			await client.query('select pg_advisory_unlock($1)', [MIGRATION_LOCK_KEY]);
+		}
+	} finally {
+		client.release();
+	}
+}
@@ -11,4 +11,4 @@ CREATE TABLE IF NOT EXISTS video_hits (
     ip_address TEXT NOT NULL,
     useragent TEXT NOT NULL,
     timestamp BIGINT NOT NULL
-);
\ No newline at end of file
+);
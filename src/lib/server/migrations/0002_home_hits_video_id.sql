@@ -0,0 +1,2 @@
+-- /api/videos has been writing the deep-linked `?v=` slug, but the original schema never had it.
+ALTER TABLE home_hits ADD COLUMN IF NOT EXISTS video_id TEXT;
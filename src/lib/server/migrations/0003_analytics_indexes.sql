@@ -0,0 +1,4 @@
+CREATE INDEX IF NOT EXISTS home_hits_timestamp_idx ON home_hits (timestamp);
+CREATE INDEX IF NOT EXISTS home_hits_video_id_idx ON home_hits (video_id) WHERE video_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS video_hits_timestamp_idx ON video_hits (timestamp);
+CREATE INDEX IF NOT EXISTS video_hits_video_id_idx ON video_hits (video_id, timestamp);
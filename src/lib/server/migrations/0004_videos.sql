@@ -0,0 +1,22 @@
+-- Video catalog, reconciled from the `_full/` and `_thumbs/` bucket prefixes.
+CREATE TABLE IF NOT EXISTS videos (
+    slug TEXT COLLATE "C" PRIMARY KEY,
+    -- -1 for non-numeric slugs so numeric ids sort first under `slug_num DESC`.
+    slug_num NUMERIC GENERATED ALWAYS AS (CASE WHEN slug ~ '^[0-9]+$' THEN slug::numeric ELSE -1 END) STORED,
+    size_bytes BIGINT NOT NULL,
+    last_modified BIGINT NOT NULL,
+    has_thumb BOOLEAN NOT NULL DEFAULT FALSE,
+    -- Set when the object disappears from the bucket; cleared if it comes back.
+    deleted_at BIGINT,
+    first_seen_at BIGINT NOT NULL,
+    updated_at BIGINT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS videos_id_order_idx ON videos (slug_num DESC, slug DESC) WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS videos_created_at_order_idx ON videos (last_modified DESC, slug) WHERE deleted_at IS NULL;
+
+-- Mirror of the tags held by the upstream video service, refreshed whenever the landing
+-- server proxies a read or write for that video. NULL sync time means never seen.
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS tags_synced_at BIGINT;
+CREATE INDEX IF NOT EXISTS videos_tags_idx ON videos USING GIN (tags);
@@ -0,0 +1,18 @@
+-- Server-side login sessions. The browser only holds an opaque session token; `id` is its
+-- SHA-256 so a leaked table can't be replayed as cookies.
+CREATE TABLE IF NOT EXISTS sessions (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    username TEXT NOT NULL,
+    refresh_token TEXT NOT NULL,
+    refresh_expires_at BIGINT,
+    access_token TEXT,
+    access_expires_at BIGINT,
+    user_agent TEXT NOT NULL DEFAULT '',
+    ip_address TEXT NOT NULL DEFAULT '',
+    created_at BIGINT NOT NULL,
+    last_seen_at BIGINT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS sessions_user_id_idx ON sessions (user_id);
+CREATE INDEX IF NOT EXISTS sessions_last_seen_at_idx ON sessions (last_seen_at);
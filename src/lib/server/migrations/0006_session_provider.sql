@@ -0,0 +1,4 @@
+-- Sessions can come from the password login proxy (`sso`) or the Keycloak authorization-code
+-- flow (`oidc`); OIDC sessions keep their ID token for RP-initiated logout.
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS provider TEXT NOT NULL DEFAULT 'sso';
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS id_token TEXT;
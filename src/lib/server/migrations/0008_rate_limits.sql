@@ -0,0 +1,9 @@
+-- Token buckets shared by every app replica (RATE_LIMIT_STORE=postgres). `key` is a hash of
+-- rule + client, so no addresses are stored; idle buckets are pruned once they'd be full again.
+CREATE TABLE IF NOT EXISTS rate_limit_buckets (
+    key TEXT PRIMARY KEY,
+    tokens DOUBLE PRECISION NOT NULL,
+    updated_at BIGINT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS rate_limit_buckets_updated_at_idx ON rate_limit_buckets (updated_at);
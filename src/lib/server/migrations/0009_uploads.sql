@@ -0,0 +1,11 @@
+-- Uploads handed a presigned URL for `_full/<slug>.mp4`, so the completion call can check the
+-- object against what was announced and who announced it.
+CREATE TABLE IF NOT EXISTS uploads (
+    slug TEXT COLLATE "C" PRIMARY KEY,
+    content_type TEXT NOT NULL,
+    size_bytes BIGINT NOT NULL,
+    created_by TEXT NOT NULL,
+    created_at BIGINT NOT NULL,
+    expires_at BIGINT NOT NULL,
+    completed_at BIGINT
+);
@@ -0,0 +1,20 @@
+-- Deletes requested through the app. Unlike `deleted_at` (object gone from the bucket), a
+-- removed video keeps its objects until `purged_at`, so it can be restored until then.
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS removed_at BIGINT;
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS removed_by TEXT;
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS purged_at BIGINT;
+
+CREATE INDEX IF NOT EXISTS videos_pending_purge_idx ON videos (removed_at)
+    WHERE removed_at IS NOT NULL AND purged_at IS NULL;
+
+-- Who deleted, restored or purged what. `actor` is `user:<id>`, `apikey:<id>` or `system`.
+CREATE TABLE IF NOT EXISTS video_audit_log (
+    id UUID PRIMARY KEY,
+    slug TEXT COLLATE "C" NOT NULL,
+    action TEXT NOT NULL,
+    actor TEXT NOT NULL,
+    at BIGINT NOT NULL,
+    detail JSONB
+);
+
+CREATE INDEX IF NOT EXISTS video_audit_log_slug_idx ON video_audit_log (slug, at DESC);
@@ -0,0 +1,4 @@
+-- Where a play happened: the feed on this site, or the /embed player on someone else's page
+-- (with that page's URL). NULL source means a hit recorded before this column existed.
+ALTER TABLE video_hits ADD COLUMN IF NOT EXISTS source TEXT;
+ALTER TABLE video_hits ADD COLUMN IF NOT EXISTS referrer TEXT;
@@ -0,0 +1,2 @@
+-- Set by the reconciler when `_hls/<slug>/` exists next to the MP4.
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS has_hls BOOLEAN NOT NULL DEFAULT FALSE;
@@ -0,0 +1,3 @@
+-- Languages with a `_captions/<slug>.<lang>.vtt` object, sorted. Kept by the reconciler and by
+-- caption uploads.
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS caption_langs TEXT[] NOT NULL DEFAULT '{}';
@@ -0,0 +1,4 @@
+-- Set by the reconciler from `_posters/<slug>.<format>`: the preferred format found (webp, then
+-- jpg), or NULL without a poster, and whether `_posters/<slug>@2x.<format>` exists too.
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS poster_format TEXT;
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS poster_hidpi BOOLEAN NOT NULL DEFAULT FALSE;
@@ -0,0 +1,187 @@
+import { env } from '$env/dynamic/private';
+import { createHash, randomBytes } from 'node:crypto';
+import type { JWTPayload } from 'jose';
+import { ApiError } from '$lib/api/error';
+import { getKeycloakOidcEndpoints, verifyKeycloakIdToken } from '$lib/server/keycloak';
+import type { JwtLike } from '$lib/server/sso-auth';
+
+// Authorization-code + PKCE login against the Keycloak realm from KC_ENDPOINT/KC_REALM. Unlike
+// the password form, the user signs in on Keycloak's own pages, so any identity provider
+// brokered by the realm (Google, GitHub, another OIDC/SAML IdP) works too.
+
+const DEFAULT_SCOPES = 'openid profile email';
+
+// What the callback needs to finish a login; kept in a short-lived cookie between the two.
+export type PendingOidcLogin = {
+	state: string;
+	nonce: string;
+	codeVerifier: string;
+	redirectUri: string;
+	returnTo: string;
+};
+
+const randomToken = () => randomBytes(32).toString('base64url');
+
+const codeChallengeFor = (verifier: string) =>
+	createHash('sha256').update(verifier).digest('base64url');
+
+// Any origin will do: it only serves to tell paths from URLs that leave the site.
+const RETURN_TO_BASE = 'http://return-to.invalid';
+
+// Same-origin paths only. Browsers treat `//host` and `/\host` as absolute URLs, and drop tabs
+// and newlines first (`/\t/host` is `//host`), so control characters and whitespace are
+// refused outright and the rest must resolve to a path on our own origin.
+export const safeReturnTo = (value: string | null | undefined) => {
+	if (!value || !value.startsWith('/') || /[\s\x00-\x1f\x7f]/.test(value)) return '/';
+	let url: URL;
+	try {
+		url = new URL(value, RETURN_TO_BASE);
+	} catch {
+		return '/';
+	}
+	if (url.origin !== RETURN_TO_BASE) return '/';
+	// Dot segments can collapse into a protocol-relative path: `/..//host` becomes `//host`.
+	const path = `${url.pathname}${url.search}${url.hash}`;
+	return /^\/[/\\]/.test(path) ? '/' : path;
+};
+
+const getScopes = () => {
+	const scopes = (env.OIDC_SCOPES ?? DEFAULT_SCOPES).split(/\s+/).filter(Boolean);
+	return [...new Set(['openid', ...scopes])].join(' ');
+};
+
+export const isOidcLoginEnabled = () => Boolean(getKeycloakOidcEndpoints());
+
+const requireEndpoints = () => {
+	const endpoints = getKeycloakOidcEndpoints();
+	if (!endpoints) throw new ApiError('OIDC login is not configured', 503);
+	return endpoints;
+};
+
+// `idpHint` is passed through as Keycloak's kc_idp_hint to skip straight to a brokered IdP.
+export function createOidcLoginRequest(opts: {
+	redirectUri: string;
+	returnTo?: string | null;
+	idpHint?: string | null;
+}): { url: string; pending: PendingOidcLogin } {
+	const endpoints = requireEndpoints();
+	const pending: PendingOidcLogin = {
+		state: randomToken(),
+		nonce: randomToken(),
+		codeVerifier: randomToken(),
+		redirectUri: opts.redirectUri,
+		returnTo: safeReturnTo(opts.returnTo)
+	};
+
+	const url = new URL(endpoints.authorizationUrl);
+	url.searchParams.set('response_type', 'code');
+	url.searchParams.set('client_id', endpoints.clientId);
+	url.searchParams.set('redirect_uri', pending.redirectUri);
+	url.searchParams.set('scope', getScopes());
+	url.searchParams.set('state', pending.state);
+	url.searchParams.set('nonce', pending.nonce);
+	url.searchParams.set('code_challenge', codeChallengeFor(pending.codeVerifier));
+	url.searchParams.set('code_challenge_method', 'S256');
+	const idpHint = opts.idpHint?.trim();
+	if (idpHint) url.searchParams.set('kc_idp_hint', idpHint);
+	return { url: url.toString(), pending };
+}
+
+async function tokenRequest(params: Record<string, string>): Promise<JwtLike> {
+	const endpoints = requireEndpoints();
+	const body = new URLSearchParams({ client_id: endpoints.clientId, ...params });
+	// Confidential clients authenticate the exchange; public clients rely on PKCE alone.
+	const secret = (env.KC_CLIENT_SECRET ?? '').trim();
+	if (secret) body.set('client_secret', secret);
+
+	const res = await fetch(endpoints.tokenUrl, {
+		method: 'POST',
+		headers: {
+			Accept: 'application/json',
+			'Content-Type': 'application/x-www-form-urlencoded'
+		},
+		body
+	});
+	if (!res.ok) {
+		const bodyText = await res.text().catch(() => '');
+		throw new ApiError(`Token endpoint ${res.status} ${res.statusText}`, res.status, bodyText);
+	}
+
+	const tokens = (await res.json()) as JwtLike;
+	if (!tokens?.access_token) throw new ApiError('Token endpoint returned no access token', 502);
+	return tokens;
+}
+
+// Redeem the callback's code. The ID token must be signed by the realm, issued to our client,
+// and carry the nonce from the matching login request.
+export async function exchangeOidcCode(
+	pending: PendingOidcLogin,
+	code: string
+): Promise<{ tokens: JwtLike; claims: JWTPayload }> {
+	const tokens = await tokenRequest({
+		grant_type: 'authorization_code',
+		code,
+		redirect_uri: pending.redirectUri,
+		code_verifier: pending.codeVerifier
+	});
+	if (!tokens.id_token) throw new ApiError('Token endpoint returned no ID token', 502);
+	const claims = await verifyKeycloakIdToken(tokens.id_token, pending.nonce);
+	return { tokens, claims };
+}
+
+export function refreshOidcTokens(refreshToken: string): Promise<JwtLike> {
+	return tokenRequest({ grant_type: 'refresh_token', refresh_token: refreshToken });
+}
+
+// Access token for the app's own Keycloak service account (client_credentials), used when a
+// request is made with an API key and there is no user token to forward upstream. Needs a
+// confidential client: KC_CLIENT_SECRET plus "service accounts" enabled on KC_CLIENT_ID.
+let serviceToken: { accessToken: string; expiresAt: number } | null = null;
+let serviceTokenFlight: Promise<string> | null = null;
+
+const SERVICE_TOKEN_SKEW_MS = 30_000;
+
+export const isServiceAccountEnabled = () =>
+	isOidcLoginEnabled() && Boolean((env.KC_CLIENT_SECRET ?? '').trim());
+
+export function getServiceAccessToken(): Promise<string> {
+	if (serviceToken && serviceToken.expiresAt - Date.now() > SERVICE_TOKEN_SKEW_MS) {
+		return Promise.resolve(serviceToken.accessToken);
+	}
+	if (!isServiceAccountEnabled()) {
+		return Promise.reject(
+			new ApiError('Service account is not configured (KC_CLIENT_SECRET)', 503)
+		);
+	}
+	serviceTokenFlight ??= tokenRequest({ grant_type: 'client_credentials' })
+		.then((tokens) => {
+			const ttlSeconds = tokens.expires_in && tokens.expires_in > 0 ? tokens.expires_in : 60;
+			serviceToken = {
+				accessToken: tokens.access_token,
+				expiresAt: Date.now() + ttlSeconds * 1000
+			};
+			return tokens.access_token;
+		})
+		.finally(() => {
+			serviceTokenFlight = null;
+		});
+	return serviceTokenFlight;
+}
+
+// RP-initiated logout: ends the Keycloak SSO session too, then sends the browser back here.
+export function getOidcLogoutUrl(
+	idToken: string | null,
+	fallbackRedirectUri: string
+): string | null {
+	const endpoints = getKeycloakOidcEndpoints();
+	if (!endpoints) return null;
+
+	const url = new URL(endpoints.endSessionUrl);
+	url.searchParams.set('client_id', endpoints.clientId);
+	url.searchParams.set(
+		'post_logout_redirect_uri',
+		(env.OIDC_POST_LOGOUT_REDIRECT_URI ?? '').trim() || fallbackRedirectUri
+	);
+	if (idToken) url.searchParams.set('id_token_hint', idToken);
+	return url.toString();
+}
@@ -1,6 +1,7 @@
 import { env } from '$env/dynamic/private';
 import { error } from '@sveltejs/kit';
 import pg from 'pg';
+import { isAutoMigrateEnabled, runMigrations } from '$lib/server/migrate';
 
 const { Pool } = pg;
 
@@ -98,16 +99,33 @@ export const initPostgres = async (): Promise<pg.Pool> => {
             ssl: getPgSslConfig(sslmode, ca)
         });
 
-        // Force an initial connection attempt at server startup.
-        await created.query('select 1');
+        try {
+            // Force an initial connection attempt at server startup.
+            await created.query('select 1');
+
+            // Bring the schema up to date before anything queries it (see ./migrations).
+            if (isAutoMigrateEnabled()) {
+                await runMigrations(created);
+            }
+        } catch (e) {
+            await created.end().catch(() => {});
+            throw e;
+        }
 
         pool = created;
         return created;
     })();
+    // Don't cache a failed attempt: background tasks call initPostgres() again to reconnect
+    // once the database is reachable.
+    initPromise.catch(() => {
+        initPromise = undefined;
+    });
 
     return initPromise;
 };
 
+export const isPostgresReady = () => pool !== undefined;
+
 export const getPostgresPool = (): pg.Pool => {
     if (!pool) {
         throw error(500, 'Postgres not initialized. Call initPostgres() on server startup.');
@@ -0,0 +1,368 @@
+import { env } from '$env/dynamic/private';
+import type { RequestEvent } from '@sveltejs/kit';
+import { createHash } from 'node:crypto';
+import { ipClientKey, isTrustedProxy, resolveClientAddress } from '$lib/server/client-address';
+import { counter, gauge } from '$lib/server/metrics';
+import { getPostgresPool, isPostgresReady } from '$lib/server/postgres';
+
+// Token buckets: each client gets `capacity` requests of burst per rule, refilled continuously
+// at `capacity / periodMs`. Clients are the signed-in user, the API key, or else the client
+// address (IPv6 by /64). Requests that only resolve to one of our own proxies share that
+// proxy's bucket, at RATE_LIMIT_PROXY_FACTOR times the rule's limit.
+
+export type RateLimit = {
+	capacity: number;
+	// Time for an empty bucket to fill back up.
+	periodMs: number;
+};
+
+export type RateLimitResult = {
+	allowed: boolean;
+	remaining: number;
+	// 0 when allowed; otherwise how long until one token is back.
+	retryAfterMs: number;
+};
+
+export interface RateLimitStore {
+	take(key: string, limit: RateLimit, now: number): Promise<RateLimitResult>;
+	// What take() would decide, without using up a token.
+	peek(key: string, limit: RateLimit, now: number): Promise<RateLimitResult>;
+	// Drop buckets untouched since `before`; they've refilled, so forgetting them changes nothing.
+	prune(before: number): Promise<number>;
+}
+
+type RateLimitRule = {
+	name: string;
+	method: string;
+	routeId: string;
+	// Overridden by RATE_LIMIT_<NAME> (e.g. RATE_LIMIT_VIDEO_HIT=60/m), or "off".
+	defaultLimit: string;
+};
+
+// Unauthenticated endpoints that write to Postgres or are worth brute-forcing.
+const RULES: RateLimitRule[] = [
+	{ name: 'video-hit', method: 'POST', routeId: '/api/video-hit', defaultLimit: '60/m' },
+	{ name: 'videos', method: 'GET', routeId: '/api/videos', defaultLimit: '120/m' },
+	{ name: 'login', method: 'POST', routeId: '/login', defaultLimit: '10/m' }
+];
+
+// Presented API keys that didn't match, per client address, on any route. Checked by the auth
+// hook before the lookup, so a client out of attempts learns nothing even from a valid key.
+const API_KEY_FAILURES: RateLimitRule = {
+	name: 'api-key-failures',
+	method: '*',
+	routeId: '*',
+	defaultLimit: '10/m'
+};
+
+const PERIOD_UNITS_MS: Record<string, number> = { s: 1000, m: 60_000, h: 3_600_000 };
+const PRUNE_INTERVAL_MS = 10 * 60 * 1000;
+const DEFAULT_PLAY_DEDUPE_WINDOW_MS = 10 * 60 * 1000;
+const DEFAULT_PROXY_FACTOR = 20;
+// Memory store guard: past this many buckets, refilled ones are swept before adding more.
+const MEMORY_MAX_BUCKETS = 100_000;
+
+const decisions = counter({
+	name: 'rate_limit_decisions_total',
+	help: 'Rate limit checks, by rule, result (allowed, limited) and client (own, proxy)',
+	labelNames: ['rule', 'result', 'client'] as const
+});
+const storeErrors = counter({
+	name: 'rate_limit_store_errors_total',
+	help: 'Rate limit store failures; the check falls back to the in-memory store',
+	labelNames: ['store'] as const
+});
+const playsDeduplicated = counter({
+	name: 'video_hits_deduplicated_total',
+	help: 'Video hits not recorded because the viewer already played the video within the window'
+});
+
+// "<count>/<s|m|h>", e.g. 60/m. Null for "off" or anything unparseable.
+const parseLimit = (value: string): RateLimit | null => {
+	const match = /^\s*(\d+)\s*\/\s*(\d*)\s*([smh])\s*$/i.exec(value);
+	if (!match) return null;
+	const capacity = Number.parseInt(match[1]!, 10);
+	const periods = match[2] ? Number.parseInt(match[2], 10) : 1;
+	if (capacity <= 0 || periods <= 0) return null;
+	return { capacity, periodMs: periods * PERIOD_UNITS_MS[match[3]!.toLowerCase()]! };
+};
+
+const envName = (rule: RateLimitRule) => `RATE_LIMIT_${rule.name.toUpperCase().replace(/-/g, '_')}`;
+
+const getRuleLimit = (rule: RateLimitRule): RateLimit | null => {
+	const configured = (env[envName(rule)] ?? '').trim();
+	if (configured.toLowerCase() === 'off') return null;
+	return parseLimit(configured) ?? parseLimit(rule.defaultLimit);
+};
+
+const getProxyFactor = () => {
+	const parsed = Number.parseInt(env.RATE_LIMIT_PROXY_FACTOR ?? '', 10);
+	return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_PROXY_FACTOR;
+};
+
+const isRateLimitEnabled = () => {
+	const raw = (env.RATE_LIMIT_ENABLED ?? '').trim().toLowerCase();
+	return raw !== 'false' && raw !== '0';
+};
+
+const refill = (tokens: number, updatedAt: number, limit: RateLimit, now: number) =>
+	Math.min(
+		limit.capacity,
+		tokens + (Math.max(0, now - updatedAt) * limit.capacity) / limit.periodMs
+	);
+
+const deniedResult = (tokens: number, limit: RateLimit): RateLimitResult => ({
+	allowed: false,
+	remaining: 0,
+	retryAfterMs: Math.ceil(((1 - tokens) * limit.periodMs) / limit.capacity)
+});
+
+const peekResult = (tokens: number, limit: RateLimit): RateLimitResult =>
+	tokens < 1
+		? deniedResult(tokens, limit)
+		: { allowed: true, remaining: Math.floor(tokens), retryAfterMs: 0 };
+
+// Per process: replicas each count separately, and buckets reset on restart.
+export class MemoryRateLimitStore implements RateLimitStore {
+	private readonly buckets = new Map<string, { tokens: number; updatedAt: number }>();
+
+	get size() {
+		return this.buckets.size;
+	}
+
+	async take(key: string, limit: RateLimit, now: number) {
+		const bucket = this.buckets.get(key);
+		const tokens = bucket ? refill(bucket.tokens, bucket.updatedAt, limit, now) : limit.capacity;
+		if (tokens < 1) return deniedResult(tokens, limit);
+		if (!bucket && this.buckets.size >= MEMORY_MAX_BUCKETS) {
+			await this.prune(now - getLongestPeriodMs());
+			// Still full of live buckets: forget the oldest, which errs towards allowing.
+			for (const k of this.buckets.keys()) {
+				if (this.buckets.size < MEMORY_MAX_BUCKETS) break;
+				this.buckets.delete(k);
+			}
+		}
+		this.buckets.set(key, { tokens: tokens - 1, updatedAt: now });
+		return { allowed: true, remaining: Math.floor(tokens - 1), retryAfterMs: 0 };
+	}
+
+	async peek(key: string, limit: RateLimit, now: number) {
+		const bucket = this.buckets.get(key);
+		return peekResult(
+			bucket ? refill(bucket.tokens, bucket.updatedAt, limit, now) : limit.capacity,
+			limit
+		);
+	}
+
+	async prune(before: number) {
+		let removed = 0;
+		for (const [key, bucket] of this.buckets) {
+			if (bucket.updatedAt >= before) continue;
+			this.buckets.delete(key);
+			removed += 1;
+		}
+		return removed;
+	}
+}
+
+const hashKey = (key: string) => createHash('sha256').update(key).digest('base64url');
+
+// Shared by all replicas: one upsert per check. A bucket without a whole token left is not
+// updated, so the `where` clause doubles as the allow/deny decision.
+export class PostgresRateLimitStore implements RateLimitStore {
+	async take(key: string, limit: RateLimit, now: number) {
+		const pool = getPostgresPool();
+		const id = hashKey(key);
+		const refillPerMs = limit.capacity / limit.periodMs;
+		const { rows } = await pool.query<{ tokens: number }>(
+			`insert into rate_limit_buckets as b (key, tokens, updated_at)
+			values ($1, $2::float8 - 1, $3)
+			on conflict (key) do update
+				set tokens = least($2::float8, b.tokens + greatest(0, $3 - b.updated_at) * $4::float8) - 1,
+					updated_at = greatest(b.updated_at, $3)
+				where least($2::float8, b.tokens + greatest(0, $3 - b.updated_at) * $4::float8) >= 1
+			returning tokens`,
+			[id, limit.capacity, now, refillPerMs]
+		);
+		if (rows[0]) {
+			return { allowed: true, remaining: Math.floor(rows[0].tokens), retryAfterMs: 0 };
+		}
+
+		const current = await pool.query<{ tokens: number; updated_at: string }>(
+			'select tokens, updated_at from rate_limit_buckets where key = $1',
+			[id]
+		);
+		const row = current.rows[0];
+		return deniedResult(row ? refill(row.tokens, Number(row.updated_at), limit, now) : 0, limit);
+	}
+
+	async peek(key: string, limit: RateLimit, now: number) {
+		const { rows } = await getPostgresPool().query<{ tokens: number; updated_at: string }>(
+			'select tokens, updated_at from rate_limit_buckets where key = $1',
+			[hashKey(key)]
+		);
+		const row = rows[0];
+		return peekResult(
+			row ? refill(row.tokens, Number(row.updated_at), limit, now) : limit.capacity,
+			limit
+		);
+	}
+
+	async prune(before: number) {
+		const { rowCount } = await getPostgresPool().query(
+			'delete from rate_limit_buckets where updated_at < $1',
+			[before]
+		);
+		return rowCount ?? 0;
+	}
+}
+
+const memoryStore = new MemoryRateLimitStore();
+const postgresStore = new PostgresRateLimitStore();
+
+gauge({
+	name: 'rate_limit_memory_buckets',
+	help: 'Token buckets held by the in-memory rate limit store',
+	collect: (g) => g.set({}, memoryStore.size)
+});
+
+// RATE_LIMIT_STORE=memory (default) or postgres. Postgres shares limits across replicas at the
+// cost of a write per checked request; while it's unavailable, checks use memory.
+const getStore = (): RateLimitStore => {
+	const configured = (env.RATE_LIMIT_STORE ?? '').trim().toLowerCase();
+	return configured === 'postgres' && isPostgresReady() ? postgresStore : memoryStore;
+};
+
+async function useStore(
+	op: 'take' | 'peek',
+	key: string,
+	limit: RateLimit
+): Promise<RateLimitResult> {
+	const store = getStore();
+	const now = Date.now();
+	try {
+		return await store[op](key, limit, now);
+	} catch (e) {
+		if (store === memoryStore) throw e;
+		storeErrors.inc({ store: 'postgres' });
+		console.error('[RATE LIMIT] store failed; using memory', e);
+		return memoryStore[op](key, limit, now);
+	}
+}
+
+const take = (key: string, limit: RateLimit) => useStore('take', key, limit);
+
+// Everyone behind a proxy shares its bucket, so it gets a proportionally bigger one.
+const clientLimit = (limit: RateLimit, shared: boolean): RateLimit =>
+	shared ? { ...limit, capacity: limit.capacity * getProxyFactor() } : limit;
+
+const warnedProxies = new Set<string>();
+
+// `shared` when the request can't be pinned on a client: its address is one of our own proxies
+// (see TRUSTED_PROXIES and CLIENT_IP_HEADER), so everyone behind it lands in one bucket.
+const getClient = (event: RequestEvent): { key: string; shared: boolean } => {
+	if (event.locals.user) return { key: `user:${event.locals.user.id}`, shared: false };
+	if (event.locals.apiKey) return { key: `key:${event.locals.apiKey.id}`, shared: false };
+	const address = resolveClientAddress(event);
+	if (!isTrustedProxy(address)) return { key: `ip:${ipClientKey(address)}`, shared: false };
+	if (!warnedProxies.has(address) && warnedProxies.size < 100) {
+		warnedProxies.add(address);
+		console.warn(
+			`[RATE LIMIT] requests arrive from proxy ${address} without a client address; ` +
+				'they share one bucket (check TRUSTED_PROXIES and CLIENT_IP_HEADER)'
+		);
+	}
+	return { key: `proxy:${ipClientKey(address)}`, shared: true };
+};
+
+export type RateLimitDecision = RateLimitResult & { rule: string; limit: RateLimit };
+
+// The decision for this request, or null when no rule covers its route (or limits are off).
+export async function checkRateLimit(event: RequestEvent): Promise<RateLimitDecision | null> {
+	if (!isRateLimitEnabled()) return null;
+	const rule = RULES.find((r) => r.routeId === event.route.id && r.method === event.request.method);
+	const limit = rule ? getRuleLimit(rule) : null;
+	if (!rule || !limit) return null;
+
+	const client = getClient(event);
+	const applied = clientLimit(limit, client.shared);
+	const result = await take(`${rule.name}:${client.key}`, applied);
+	decisions.inc({
+		rule: rule.name,
+		result: result.allowed ? 'allowed' : 'limited',
+		client: client.shared ? 'proxy' : 'own'
+	});
+	return { ...result, rule: rule.name, limit: applied };
+}
+
+// The API key attempts this client has left; null when limits are off.
+export async function checkApiKeyAttempts(event: RequestEvent): Promise<RateLimitDecision | null> {
+	const limit = isRateLimitEnabled() ? getRuleLimit(API_KEY_FAILURES) : null;
+	if (!limit) return null;
+	const client = getClient(event);
+	const applied = clientLimit(limit, client.shared);
+	const result = await useStore('peek', `${API_KEY_FAILURES.name}:${client.key}`, applied);
+	if (!result.allowed) {
+		decisions.inc({
+			rule: API_KEY_FAILURES.name,
+			result: 'limited',
+			client: client.shared ? 'proxy' : 'own'
+		});
+	}
+	return { ...result, rule: API_KEY_FAILURES.name, limit: applied };
+}
+
+// Count a presented API key that matched nothing against the client's attempts.
+export async function recordApiKeyFailure(event: RequestEvent): Promise<void> {
+	const limit = isRateLimitEnabled() ? getRuleLimit(API_KEY_FAILURES) : null;
+	if (!limit) return;
+	const client = getClient(event);
+	const applied = clientLimit(limit, client.shared);
+	await take(`${API_KEY_FAILURES.name}:${client.key}`, applied);
+}
+
+const getPlayDedupeWindowMs = () => {
+	const parsed = Number.parseInt(env.VIDEO_HIT_DEDUPE_WINDOW_MS ?? '', 10);
+	return Number.isFinite(parsed) && parsed >= 0 ? parsed : DEFAULT_PLAY_DEDUPE_WINDOW_MS;
+};
+
+// Whether this play should be counted: the first per viewer and video within
+// VIDEO_HIT_DEDUPE_WINDOW_MS (0 counts every play). A bucket of one token refilled once per
+// window does exactly that, in whichever store the rate limits use.
+export async function claimVideoPlay(viewerKey: string, videoId: string): Promise<boolean> {
+	const windowMs = getPlayDedupeWindowMs();
+	if (windowMs === 0) return true;
+	const { allowed } = await take(`play:${viewerKey}:${videoId}`, {
+		capacity: 1,
+		periodMs: windowMs
+	});
+	if (!allowed) playsDeduplicated.inc();
+	return allowed;
+}
+
+const getLongestPeriodMs = () =>
+	Math.max(
+		getPlayDedupeWindowMs(),
+		...[...RULES, API_KEY_FAILURES].map((rule) => getRuleLimit(rule)?.periodMs ?? 0)
+	);
+
+let pruneTimer: ReturnType<typeof setInterval> | undefined;
+
+const pruneOnce = async () => {
+	const before = Date.now() - getLongestPeriodMs();
+	await memoryStore.prune(before);
+	if (!isPostgresReady() || (env.RATE_LIMIT_STORE ?? '').trim().toLowerCase() !== 'postgres') {
+		return;
+	}
+	try {
+		await postgresStore.prune(before);
+	} catch (e) {
+		console.error('[RATE LIMIT] prune failed', e);
+	}
+};
+
+export const startRateLimitPruner = () => {
+	if (pruneTimer) return;
+	pruneTimer = setInterval(() => void pruneOnce(), PRUNE_INTERVAL_MS);
+	pruneTimer.unref?.();
+};
@@ -0,0 +1,285 @@
+import { dev } from '$app/environment';
+import { env } from '$env/dynamic/private';
+import { createHash, randomBytes } from 'node:crypto';
+import type { QueryResultRow } from 'pg';
+import { ApiError } from '$lib/api/error';
+import { getPostgresPool, isPostgresReady } from '$lib/server/postgres';
+
+// Login sessions live server-side; the browser cookie carries only a random token. Stores key
+// sessions by the token's SHA-256, so neither memory dumps nor database rows hold a usable cookie.
+// They do hold the upstream refresh, access and ID tokens in plain text, though, which are
+// credentials in their own right: treat the `sessions` table like a secret store.
+
+// How the session was established: `sso` via the password login proxy, `oidc` via the
+// Keycloak authorization-code flow. Decides where its refresh token is redeemed.
+export type SessionProvider = 'sso' | 'oidc';
+
+export type Session = {
+	id: string;
+	provider: SessionProvider;
+	userId: string;
+	username: string;
+	refreshToken: string;
+	refreshExpiresAt: number | null;
+	accessToken: string | null;
+	accessExpiresAt: number | null;
+	// Kept for RP-initiated logout (`id_token_hint`); only OIDC sessions have one.
+	idToken: string | null;
+	userAgent: string;
+	ipAddress: string;
+	createdAt: number;
+	lastSeenAt: number;
+};
+
+export type SessionPatch = Partial<
+	Pick<
+		Session,
+		| 'refreshToken'
+		| 'refreshExpiresAt'
+		| 'accessToken'
+		| 'accessExpiresAt'
+		| 'idToken'
+		| 'lastSeenAt'
+	>
+>;
+
+export interface SessionStore {
+	get(id: string): Promise<Session | null>;
+	create(session: Session): Promise<void>;
+	update(id: string, patch: SessionPatch): Promise<void>;
+	delete(id: string): Promise<void>;
+	listByUser(userId: string): Promise<Session[]>;
+	// Returns how many sessions were removed.
+	deleteByUser(userId: string, exceptId?: string): Promise<number>;
+	deleteExpired(now: number): Promise<number>;
+}
+
+const DEFAULT_IDLE_TIMEOUT_MS = 30 * 24 * 60 * 60 * 1000;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+export const newSessionToken = () => randomBytes(32).toString('base64url');
+
+export const hashSessionToken = (token: string) =>
+	createHash('sha256').update(token).digest('base64url');
+
+// Sessions end when the refresh token does, or after SESSION_IDLE_TIMEOUT_MS without use.
+const getIdleTimeoutMs = () => {
+	const parsed = Number.parseInt(env.SESSION_IDLE_TIMEOUT_MS ?? '', 10);
+	return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_IDLE_TIMEOUT_MS;
+};
+
+export const isSessionExpired = (session: Session, now = Date.now()) =>
+	(session.refreshExpiresAt !== null && session.refreshExpiresAt <= now) ||
+	now - session.lastSeenAt > getIdleTimeoutMs();
+
+// Single-process only: sessions vanish on restart and aren't shared between replicas.
+export class MemorySessionStore implements SessionStore {
+	private readonly sessions = new Map<string, Session>();
+
+	async get(id: string) {
+		const session = this.sessions.get(id);
+		return session ? { ...session } : null;
+	}
+
+	async create(session: Session) {
+		this.sessions.set(session.id, { ...session });
+	}
+
+	async update(id: string, patch: SessionPatch) {
+		const session = this.sessions.get(id);
+		if (session) this.sessions.set(id, { ...session, ...patch });
+	}
+
+	async delete(id: string) {
+		this.sessions.delete(id);
+	}
+
+	async listByUser(userId: string) {
+		return [...this.sessions.values()]
+			.filter((s) => s.userId === userId)
+			.sort((a, b) => b.lastSeenAt - a.lastSeenAt)
+			.map((s) => ({ ...s }));
+	}
+
+	async deleteByUser(userId: string, exceptId?: string) {
+		let removed = 0;
+		for (const session of [...this.sessions.values()]) {
+			if (session.userId !== userId || session.id === exceptId) continue;
+			this.sessions.delete(session.id);
+			removed += 1;
+		}
+		return removed;
+	}
+
+	async deleteExpired(now: number) {
+		let removed = 0;
+		for (const session of [...this.sessions.values()]) {
+			if (!isSessionExpired(session, now)) continue;
+			this.sessions.delete(session.id);
+			removed += 1;
+		}
+		return removed;
+	}
+}
+
+type SessionRow = {
+	id: string;
+	provider: string;
+	user_id: string;
+	username: string;
+	refresh_token: string;
+	refresh_expires_at: string | null;
+	access_token: string | null;
+	access_expires_at: string | null;
+	id_token: string | null;
+	user_agent: string;
+	ip_address: string;
+	created_at: string;
+	last_seen_at: string;
+};
+
+const toNumberOrNull = (value: string | null) => (value === null ? null : Number(value));
+
+const fromRow = (row: SessionRow): Session => ({
+	id: row.id,
+	provider: row.provider === 'oidc' ? 'oidc' : 'sso',
+	userId: row.user_id,
+	username: row.username,
+	refreshToken: row.refresh_token,
+	refreshExpiresAt: toNumberOrNull(row.refresh_expires_at),
+	accessToken: row.access_token,
+	accessExpiresAt: toNumberOrNull(row.access_expires_at),
+	idToken: row.id_token,
+	userAgent: row.user_agent,
+	ipAddress: row.ip_address,
+	createdAt: Number(row.created_at),
+	lastSeenAt: Number(row.last_seen_at)
+});
+
+const PATCH_COLUMNS: Record<keyof SessionPatch, string> = {
+	refreshToken: 'refresh_token',
+	refreshExpiresAt: 'refresh_expires_at',
+	accessToken: 'access_token',
+	accessExpiresAt: 'access_expires_at',
+	idToken: 'id_token',
+	lastSeenAt: 'last_seen_at'
+};
+
+// A database that is down or not connected yet says nothing about the session, so failures
+// surface as a 503: callers (see isTransientAuthError) keep the cookie rather than sign out.
+const query = async <R extends QueryResultRow>(sql: string, params: unknown[]) => {
+	try {
+		return await getPostgresPool().query<R>(sql, params);
+	} catch (e) {
+		console.error('[SESSIONS] session store query failed', e);
+		throw new ApiError('Session store unavailable', 503);
+	}
+};
+
+export class PostgresSessionStore implements SessionStore {
+	async get(id: string) {
+		const { rows } = await query<SessionRow>('select * from sessions where id = $1', [id]);
+		return rows[0] ? fromRow(rows[0]) : null;
+	}
+
+	async create(session: Session) {
+		await query(
+			`insert into sessions (id, provider, user_id, username, refresh_token, refresh_expires_at,
+				access_token, access_expires_at, id_token, user_agent, ip_address, created_at, last_seen_at)
+			values ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)`,
+			[
+				session.id,
+				session.provider,
+				session.userId,
+				session.username,
+				session.refreshToken,
+				session.refreshExpiresAt,
+				session.accessToken,
+				session.accessExpiresAt,
+				session.idToken,
+				session.userAgent,
+				session.ipAddress,
+				session.createdAt,
+				session.lastSeenAt
+			]
+		);
+	}
+
+	async update(id: string, patch: SessionPatch) {
+		const params: unknown[] = [id];
+		const sets: string[] = [];
+		for (const [key, column] of Object.entries(PATCH_COLUMNS) as Array<
+			[keyof SessionPatch, string]
+		>) {
+			if (!(key in patch)) continue;
+			params.push(patch[key]);
+			sets.push(`${column} = $${params.length}`);
+		}
+		if (!sets.length) return;
+		await query(`update sessions set ${sets.join(', ')} where id = $1`, params);
+	}
+
+	async delete(id: string) {
+		await query('delete from sessions where id = $1', [id]);
+	}
+
+	async listByUser(userId: string) {
+		const { rows } = await query<SessionRow>(
+			'select * from sessions where user_id = $1 order by last_seen_at desc',
+			[userId]
+		);
+		return rows.map(fromRow);
+	}
+
+	async deleteByUser(userId: string, exceptId?: string) {
+		const { rowCount } = await query(
+			'delete from sessions where user_id = $1 and id is distinct from $2',
+			[userId, exceptId ?? null]
+		);
+		return rowCount ?? 0;
+	}
+
+	async deleteExpired(now: number) {
+		const { rowCount } = await query(
+			'delete from sessions where refresh_expires_at <= $1 or last_seen_at < $2',
+			[now, now - getIdleTimeoutMs()]
+		);
+		return rowCount ?? 0;
+	}
+}
+
+let store: { kind: string; instance: SessionStore } | undefined;
+
+// SESSION_STORE=postgres|memory. Defaults to memory under `vite dev`, Postgres otherwise.
+export const getSessionStore = (): SessionStore => {
+	const configured = (env.SESSION_STORE ?? '').trim().toLowerCase();
+	const kind =
+		configured === 'memory' || configured === 'postgres' ? configured : dev ? 'memory' : 'postgres';
+	if (store?.kind !== kind) {
+		store = {
+			kind,
+			instance: kind === 'memory' ? new MemorySessionStore() : new PostgresSessionStore()
+		};
+	}
+	return store.instance;
+};
+
+let pruneTimer: ReturnType<typeof setInterval> | undefined;
+
+const pruneOnce = async () => {
+	const sessions = getSessionStore();
+	if (sessions instanceof PostgresSessionStore && !isPostgresReady()) return;
+	try {
+		const removed = await sessions.deleteExpired(Date.now());
+		if (removed) console.log('[SESSIONS] pruned expired sessions', { removed });
+	} catch (e) {
+		console.error('[SESSIONS] prune failed', e);
+	}
+};
+
+export const startSessionPruner = () => {
+	if (pruneTimer) return;
+	void pruneOnce();
+	pruneTimer = setInterval(() => void pruneOnce(), PRUNE_INTERVAL_MS);
+	pruneTimer.unref?.();
+};
@@ -0,0 +1,85 @@
+import type { VideoItem } from '$lib/api/videos';
+import { FULLRES_PREFIX, FULLRES_SUFFIX, toCdnUrl } from '$lib/server/spaces';
+import { getVideo } from '$lib/server/video-catalog';
+
+// What link unfurlers (chat apps, social sites) see for a shared `/?v=<slug>` link: Open Graph
+// and Twitter card tags on the page itself, plus oEmbed at /oembed.
+
+export const SITE_NAME = 'PsySlop';
+const SITE_TAGLINE = 'All slop. All the time.';
+// The site logo, for videos without a poster.
+const SHARE_IMAGE_KEY = 'psyslop-1024.jpg';
+const SHARE_IMAGE_SIZE = 1024;
+
+// Nominal player size; the bucket doesn't record dimensions and most clips are vertical.
+export const PLAYER_WIDTH = 405;
+export const PLAYER_HEIGHT = 720;
+
+export type VideoShare = {
+	id: string;
+	title: string;
+	description: string;
+	pageUrl: string;
+	// The iframe player (see /embed/[slug]).
+	embedUrl: string;
+	videoUrl: string;
+	imageUrl: string;
+	// Known for the logo only; posters' dimensions aren't recorded.
+	imageWidth: number | null;
+	imageHeight: number | null;
+	playerWidth: number;
+	playerHeight: number;
+	oembedUrl: string;
+};
+
+// Accepts the same forms as the page's `?v=` handling: a bare slug or a `_full/<slug>.mp4` key.
+export const normalizeShareSlug = (value: string) => {
+	let slug = value.trim();
+	if (slug.startsWith(FULLRES_PREFIX)) slug = slug.slice(FULLRES_PREFIX.length);
+	if (slug.toLowerCase().endsWith(FULLRES_SUFFIX)) slug = slug.slice(0, -FULLRES_SUFFIX.length);
+	return slug;
+};
+
+export const videoPageUrl = (origin: string, slug: string) =>
+	`${origin}/?v=${encodeURIComponent(slug)}`;
+
+// The slug a page URL points at, if it is one of ours.
+export const slugFromPageUrl = (raw: string, origin: string): string | null => {
+	let url: URL;
+	try {
+		url = new URL(raw, origin);
+	} catch {
+		return null;
+	}
+	if (url.origin !== origin || url.pathname !== '/') return null;
+	const slug = normalizeShareSlug(url.searchParams.get('v') ?? '');
+	return slug || null;
+};
+
+// Cards are shown large, so prefer the 2x poster. `posterSrcset` is `<1x url> 1x, <2x url> 2x`.
+const toShareImageUrl = (video: Pick<VideoItem, 'posterUrl' | 'posterSrcset'>) =>
+	video.posterSrcset?.match(/(\S+) 2x$/)?.[1] ?? video.posterUrl;
+
+export async function getVideoShare(origin: string, rawSlug: string): Promise<VideoShare | null> {
+	const slug = normalizeShareSlug(rawSlug);
+	if (!slug) return null;
+	const video = await getVideo(slug);
+	if (!video) return null;
+
+	const pageUrl = videoPageUrl(origin, slug);
+	const posterUrl = toShareImageUrl(video);
+	return {
+		id: slug,
+		title: `${slug} · ${SITE_NAME}`,
+		description: video.tags.length ? video.tags.join(', ') : SITE_TAGLINE,
+		pageUrl,
+		embedUrl: `${origin}/embed/${encodeURIComponent(slug)}`,
+		videoUrl: video.videoUrl,
+		imageUrl: posterUrl ?? toCdnUrl(SHARE_IMAGE_KEY),
+		imageWidth: posterUrl ? null : SHARE_IMAGE_SIZE,
+		imageHeight: posterUrl ? null : SHARE_IMAGE_SIZE,
+		playerWidth: PLAYER_WIDTH,
+		playerHeight: PLAYER_HEIGHT,
+		oembedUrl: `${origin}/oembed?format=json&url=${encodeURIComponent(pageUrl)}`
+	};
+}
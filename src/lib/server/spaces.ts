@@ -0,0 +1,136 @@
+import { env } from '$env/dynamic/private';
+import { error } from '@sveltejs/kit';
+import { ListObjectsV2Command, S3Client, type _Object } from '@aws-sdk/client-s3';
+
+export const FULLRES_PREFIX = '_full/';
+export const THUMBS_PREFIX = '_thumbs/';
+export const FULLRES_SUFFIX = '.mp4';
+export const THUMB_SUFFIX = '.thumb.mp4';
+// HLS renditions: `_hls/<slug>/master.m3u8` plus whatever variant playlists and segments it
+// references, all under the same directory.
+export const HLS_PREFIX = '_hls/';
+export const HLS_MASTER_PLAYLIST = 'master.m3u8';
+export const CAPTIONS_PREFIX = '_captions/';
+export const CAPTION_SUFFIX = '.vtt';
+// Grid posters: `_posters/<slug>.<format>`, optionally with `_posters/<slug>@2x.<format>`.
+export const POSTERS_PREFIX = '_posters/';
+export const POSTER_HIDPI_SUFFIX = '@2x';
+// In order of preference.
+export const POSTER_FORMATS = ['webp', 'jpg'] as const;
+
+export type PosterFormat = (typeof POSTER_FORMATS)[number];
+
+export const getCdnBaseUrl = () => {
+	// Prefer explicit config, but default to the URL shape you provided.
+	return env.SPACES_CDN_BASE_URL ?? 'https://slop.sfo3.cdn.digitaloceanspaces.com';
+};
+
+export const getSpacesConfig = () => {
+	const endpoint = env.SPACES_ENDPOINT ?? 'https://sfo3.digitaloceanspaces.com';
+	const bucket = env.SPACES_BUCKET ?? 'slop';
+	const region = env.AWS_REGION ?? 'sfo3';
+
+	const accessKeyId = env.AWS_ACCESS_KEY_ID;
+	const secretAccessKey = env.AWS_SECRET_ACCESS_KEY;
+	const sessionToken = env.AWS_SESSION_TOKEN;
+
+	if (!accessKeyId || !secretAccessKey) {
+		throw error(500, 'Missing AWS credentials: set AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY');
+	}
+
+	return {
+		endpoint,
+		bucket,
+		region,
+		credentials: {
+			accessKeyId,
+			secretAccessKey,
+			sessionToken
+		}
+	};
+};
+
+let client: { signature: string; s3: S3Client } | undefined;
+
+export const getSpacesClient = () => {
+	const { endpoint, region, credentials } = getSpacesConfig();
+	// Rebuild only when the config changes (e.g. rotated credentials in dev).
+	const signature = JSON.stringify([endpoint, region, credentials]);
+	if (!client || client.signature !== signature) {
+		client = {
+			signature,
+			s3: new S3Client({
+				region,
+				endpoint,
+				credentials,
+				forcePathStyle: true,
+				// Newer SDKs otherwise sign a CRC32 of the (empty) body into presigned PUT URLs, and
+				// the bucket then rejects the real upload as a checksum mismatch.
+				requestChecksumCalculation: 'WHEN_REQUIRED'
+			})
+		};
+	}
+	return client.s3;
+};
+
+export async function listAllObjects(prefix: string): Promise<_Object[]> {
+	const { bucket } = getSpacesConfig();
+	const s3 = getSpacesClient();
+
+	let continuationToken: string | undefined;
+	const objects: _Object[] = [];
+
+	while (true) {
+		const res = await s3.send(
+			new ListObjectsV2Command({
+				Bucket: bucket,
+				Prefix: prefix,
+				ContinuationToken: continuationToken
+			})
+		);
+
+		for (const obj of res.Contents ?? []) {
+			if (obj.Key?.startsWith(prefix)) objects.push(obj);
+		}
+
+		if (!res.IsTruncated) break;
+		continuationToken = res.NextContinuationToken;
+		if (!continuationToken) break;
+	}
+
+	return objects;
+}
+
+const encodePath = (key: string) => key.split('/').map(encodeURIComponent).join('/');
+
+export const toCdnUrl = (key: string) => {
+	const base = getCdnBaseUrl();
+	const normalized = base.endsWith('/') ? base.slice(0, -1) : base;
+	return `${normalized}/${encodePath(key)}`;
+};
+
+export const toFullresKey = (slug: string) => `${FULLRES_PREFIX}${slug}${FULLRES_SUFFIX}`;
+
+// _full/foo.mp4 -> _thumbs/foo.thumb.mp4
+export const toThumbKey = (slug: string) => `${THUMBS_PREFIX}${slug}${THUMB_SUFFIX}`;
+
+// foo -> _hls/foo/master.m3u8
+export const toHlsKey = (slug: string) => `${HLS_PREFIX}${slug}/${HLS_MASTER_PLAYLIST}`;
+
+// foo, webp -> _posters/foo.webp; with hidpi, _posters/foo@2x.webp
+export const toPosterKey = (slug: string, format: PosterFormat, hidpi = false) =>
+	`${POSTERS_PREFIX}${slug}${hidpi ? POSTER_HIDPI_SUFFIX : ''}.${format}`;
+
+// foo, en -> _captions/foo.en.vtt
+export const toCaptionKey = (slug: string, lang: string) =>
+	`${CAPTIONS_PREFIX}${slug}.${lang}${CAPTION_SUFFIX}`;
+
+// _captions/foo.en.vtt -> { slug: 'foo', lang: 'en' }. The language is everything after the last
+// dot, so slugs may contain dots but languages may not.
+export const parseCaptionKey = (key: string): { slug: string; lang: string } | null => {
+	if (!key.startsWith(CAPTIONS_PREFIX) || !key.endsWith(CAPTION_SUFFIX)) return null;
+	const name = key.slice(CAPTIONS_PREFIX.length, -CAPTION_SUFFIX.length);
+	const dot = name.lastIndexOf('.');
+	if (dot <= 0 || dot === name.length - 1) return null;
+	return { slug: name.slice(0, dot), lang: name.slice(dot + 1) };
+};
@@ -1,9 +1,81 @@
 import { env } from '$env/dynamic/private';
 import { ApiError } from '$lib/api/error';
 import type { RequestEvent } from '@sveltejs/kit';
-
-const REFRESH_COOKIE = 'promptslop_refresh';
+import { resolveClientAddress, toStoredIp } from '$lib/server/client-address';
+import {
+	createOidcLoginRequest,
+	exchangeOidcCode,
+	getServiceAccessToken,
+	refreshOidcTokens,
+	type PendingOidcLogin
+} from '$lib/server/oidc';
+import {
+	getSessionStore,
+	hashSessionToken,
+	isSessionExpired,
+	newSessionToken,
+	type Session,
+	type SessionProvider
+} from '$lib/server/session-store';
+import { classifyUserAgent } from '$lib/server/useragent';
+import { looksLikeApiKey } from '$lib/server/api-keys';
+import { CircuitBreaker } from '$lib/server/circuit-breaker';
+import { counter, gauge, histogram } from '$lib/server/metrics';
+
+// httpOnly cookie holding an opaque session token; tokens themselves stay server-side.
+const SESSION_COOKIE = 'psyslop_session';
+// Pre-session cookie that carried the raw refresh token; migrated on first sight.
+const LEGACY_REFRESH_COOKIE = 'promptslop_refresh';
+// PKCE verifier, state and nonce between /auth/login and /auth/callback.
+const OIDC_LOGIN_COOKIE = 'psyslop_oidc';
+const OIDC_LOGIN_MAX_AGE_SECONDS = 10 * 60;
 const ACCESS_REFRESH_SKEW_MS = 20_000;
+// Don't write last-seen on every request.
+const SESSION_TOUCH_INTERVAL_MS = 5 * 60_000;
+
+const refreshAttempts = counter({
+	name: 'auth_token_refresh_attempts_total',
+	help: 'Refresh token redemptions sent upstream, by provider',
+	labelNames: ['provider'] as const
+});
+const refreshResults = counter({
+	name: 'auth_token_refreshes_total',
+	help: 'Refresh outcomes (success, rejected, failure, short_circuited, joined), by provider',
+	labelNames: ['provider', 'result'] as const
+});
+const refreshDuration = histogram({
+	name: 'auth_token_refresh_duration_seconds',
+	help: 'Time spent redeeming refresh tokens upstream',
+	labelNames: ['provider'] as const
+});
+
+const readPositiveInt = (value: string | undefined, fallback: number) => {
+	const parsed = Number.parseInt(value ?? '', 10);
+	return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+// One breaker per upstream: the SSO service for password sessions, Keycloak for OIDC ones.
+// While open, refreshes fail fast with a 503 instead of piling up on a dead upstream.
+const getBreakerOptions = () => ({
+	threshold: readPositiveInt(env.AUTH_REFRESH_BREAKER_THRESHOLD, 5),
+	baseBackoffMs: readPositiveInt(env.AUTH_REFRESH_BREAKER_BACKOFF_MS, 2_000),
+	maxBackoffMs: readPositiveInt(env.AUTH_REFRESH_BREAKER_MAX_BACKOFF_MS, 60_000)
+});
+const refreshBreakers: Record<SessionProvider, CircuitBreaker> = {
+	sso: new CircuitBreaker(getBreakerOptions),
+	oidc: new CircuitBreaker(getBreakerOptions)
+};
+
+gauge({
+	name: 'auth_token_refresh_circuit_open',
+	help: 'Whether the refresh circuit breaker is turning requests away (1) or not (0)',
+	labelNames: ['provider'] as const,
+	collect: (g) => {
+		for (const provider of ['sso', 'oidc'] as const) {
+			g.set({ provider }, refreshBreakers[provider].state === 'open' ? 1 : 0);
+		}
+	}
+});
 
 const getSsoBase = (): string => {
 	return env.SSO_BASE_URL ?? 'https://sso.slopindustries.com';
@@ -35,15 +107,6 @@ type RefreshCookie = {
 	refresh_expires_at: number | null;
 };
 
-type AccessCacheEntry = {
-	access_token: string;
-	expires_at: number | null;
-	last_used_at: number;
-};
-
-const ACCESS_CACHE_MAX = 5000;
-const accessCache = new Map<string, AccessCacheEntry>();
-
 function safeJsonParse<T>(text: string): T | null {
 	try {
 		return JSON.parse(text) as T;
@@ -52,11 +115,6 @@ function safeJsonParse<T>(text: string): T | null {
 	}
 }
 
-function encodeRefreshCookie(value: RefreshCookie): string {
-	// base64url keeps cookie values URL-safe without percent-encoding overhead.
-	return Buffer.from(JSON.stringify(value), 'utf8').toString('base64url');
-}
-
 function decodeRefreshCookie(raw: string): RefreshCookie | null {
 	// Backward compatible decode:
 	// - current: base64url(JSON)
@@ -80,37 +138,25 @@ function decodeRefreshCookie(raw: string): RefreshCookie | null {
 }
 
 
-function getStoredRefresh(event: RequestEvent): RefreshCookie | null {
-	const raw = event.cookies.get(REFRESH_COOKIE);
+function getLegacyRefresh(event: RequestEvent): RefreshCookie | null {
+	const raw = event.cookies.get(LEGACY_REFRESH_COOKIE);
 	if (!raw) return null;
 	return decodeRefreshCookie(raw);
 }
 
-function storeRefresh(event: RequestEvent, refreshToken: string, refreshExpiresIn?: number | null) {
+function isSecureRequest(event: RequestEvent): boolean {
 	const forwardedProto = event.request.headers.get('x-forwarded-proto');
 	const forwarded = forwardedProto ? forwardedProto.split(',')[0]!.trim() : null;
-	const isSecure = forwarded ? forwarded === 'https' : event.url.protocol === 'https:';
-	const refreshExpiresAt =
-		refreshExpiresIn && refreshExpiresIn > 0 ? Date.now() + refreshExpiresIn * 1000 : null;
-	const value: RefreshCookie = {
-		refresh_token: refreshToken,
-		refresh_expires_at: refreshExpiresAt
-	};
-
-	// Keep httpOnly=false for compatibility with existing client-side auth.
-	const encoded = encodeRefreshCookie(value);
-	if (encoded.length > 3600) {
-		console.warn('[AUTH] refresh cookie is large; may be dropped by browsers', {
-			length: encoded.length
-		});
-	}
+	return forwarded ? forwarded === 'https' : event.url.protocol === 'https:';
+}
 
-	event.cookies.set(REFRESH_COOKIE, encoded, {
+function setSessionCookie(event: RequestEvent, token: string, expiresAt: number | null) {
+	event.cookies.set(SESSION_COOKIE, token, {
 		path: '/',
 		sameSite: 'lax',
-		httpOnly: false,
-		secure: isSecure,
-		expires: refreshExpiresAt ? new Date(refreshExpiresAt) : undefined
+		httpOnly: true,
+		secure: isSecureRequest(event),
+		expires: expiresAt ? new Date(expiresAt) : undefined
 	});
 }
 
@@ -151,16 +197,20 @@ function getJwtExpiresAt(token: string | null | undefined): number | null {
 	return exp * 1000;
 }
 
-function isAccessExpiringSoon(entry: AccessCacheEntry | null | undefined, nowMs = Date.now()): boolean {
-	if (!entry?.access_token) return true;
-	if (!entry.expires_at) return true;
-	return entry.expires_at - nowMs <= ACCESS_REFRESH_SKEW_MS;
+function isAccessExpiringSoon(session: Session, nowMs = Date.now()): boolean {
+	if (!session.accessToken) return true;
+	if (!session.accessExpiresAt) return true;
+	return session.accessExpiresAt - nowMs <= ACCESS_REFRESH_SKEW_MS;
 }
 
 function userFromAccessToken(accessToken: string): UserCredentials | null {
 	const payload = decodeJwtPayload(accessToken);
 	if (!payload) return null;
+	return userFromClaims(payload, accessToken);
+}
 
+// Build the user from already-decoded (ideally verified) access token claims.
+export function userFromClaims(payload: Record<string, unknown>, accessToken: string): UserCredentials | null {
 	const id = typeof payload['sub'] === 'string' ? payload['sub'] : '';
 	const username =
 		typeof payload['preferred_username'] === 'string'
@@ -194,40 +244,6 @@ function userFromAccessToken(accessToken: string): UserCredentials | null {
 	};
 }
 
-function trimAccessCacheIfNeeded() {
-	if (accessCache.size <= ACCESS_CACHE_MAX) return;
-	// Drop least-recently-used ~10%.
-	const entries = Array.from(accessCache.entries());
-	entries.sort((a, b) => a[1].last_used_at - b[1].last_used_at);
-	const toDrop = Math.max(1, Math.floor(ACCESS_CACHE_MAX * 0.1));
-	for (let i = 0; i < toDrop && i < entries.length; i++) {
-		accessCache.delete(entries[i]![0]);
-	}
-}
-
-async function getAccessTokenForRefresh(event: RequestEvent, refreshToken: string): Promise<string> {
-	const now = Date.now();
-	const cached = accessCache.get(refreshToken);
-	if (cached && !isAccessExpiringSoon(cached, now)) {
-		cached.last_used_at = now;
-		return cached.access_token;
-	}
-
-	const refreshed = await userRefreshWithToken(refreshToken);
-	const accessToken = refreshed.jwt.access_token;
-	const expiresAt = getJwtExpiresAt(accessToken);
-	accessCache.set(refreshToken, {
-		access_token: accessToken,
-		expires_at: expiresAt,
-		last_used_at: now
-	});
-	trimAccessCacheIfNeeded();
-
-	// Refresh endpoint can extend refresh lifetime.
-	storeRefresh(event, refreshToken, refreshed.jwt.refresh_expires_in);
-	return accessToken;
-}
-
 function tokenHasAudience(token: string | null | undefined, expected: string): boolean {
 	if (!token) return false;
 	const payload = decodeJwtPayload(token);
@@ -261,6 +277,8 @@ async function authFetch<T>(path: string, init?: RequestInit): Promise<T> {
 	return (text ? (JSON.parse(text) as T) : (undefined as T));
 }
 
+// Keeps `jwt.refresh_token`: when the IdP rotates refresh tokens, the session must switch to
+// the new one.
 async function userRefreshWithToken(refreshToken: string): Promise<UserCredentials> {
 	const response = await authFetch<Omit<UserCredentials, 'issued_at'>>('/user/refresh', {
 		method: 'POST',
@@ -269,11 +287,7 @@ async function userRefreshWithToken(refreshToken: string): Promise<UserCredentia
 
 	return {
 		...response,
-		issued_at: Date.now(),
-		jwt: {
-			...response.jwt,
-			refresh_token: undefined
-		}
+		issued_at: Date.now()
 	};
 }
 
@@ -293,40 +307,204 @@ async function userLoginWithPassword(username: string, password: string): Promis
 	};
 }
 
-export async function getBearerFromEvent(event: RequestEvent): Promise<string | null> {
-	const incoming = event.request.headers.get('authorization');
-	if (incoming && /^Bearer\s+.+/i.test(incoming)) return incoming;
+const expiresAtFromNow = (seconds: number | null | undefined) =>
+	seconds && seconds > 0 ? Date.now() + seconds * 1000 : null;
 
-	const storedRefresh = getStoredRefresh(event);
-	if (!storedRefresh) return null;
-	if (storedRefresh.refresh_expires_at && Date.now() > storedRefresh.refresh_expires_at) return null;
+// One store lookup per request, however many helpers ask for the session.
+const sessionLookups = new WeakMap<RequestEvent, Promise<Session | null>>();
 
-	const accessToken = await getAccessTokenForRefresh(event, storedRefresh.refresh_token);
-	return `Bearer ${accessToken}`;
-}
+async function createSession(
+	event: RequestEvent,
+	creds: Omit<UserCredentials, 'issued_at'>,
+	provider: SessionProvider = 'sso'
+): Promise<Session> {
+	const refreshToken = creds.jwt.refresh_token;
+	if (!refreshToken) throw new ApiError('Login did not return a refresh token', 502);
 
-export async function getUserFromEvent(event: RequestEvent): Promise<UserCredentials | null> {
-	const storedRefresh = getStoredRefresh(event);
-	if (!storedRefresh) return null;
-	if (storedRefresh.refresh_expires_at && Date.now() > storedRefresh.refresh_expires_at) return null;
+	const token = newSessionToken();
+	const now = Date.now();
+	const session: Session = {
+		id: hashSessionToken(token),
+		provider,
+		userId: creds.id,
+		username: creds.username,
+		refreshToken,
+		refreshExpiresAt: expiresAtFromNow(creds.jwt.refresh_expires_in),
+		accessToken: creds.jwt.access_token ?? null,
+		accessExpiresAt: getJwtExpiresAt(creds.jwt.access_token),
+		idToken: provider === 'oidc' ? (creds.jwt.id_token ?? null) : null,
+		userAgent: event.request.headers.get('user-agent')?.trim().slice(0, 512) ?? '',
+		ipAddress: toStoredIp(resolveClientAddress(event)),
+		createdAt: now,
+		lastSeenAt: now
+	};
+	await getSessionStore().create(session);
+	setSessionCookie(event, token, session.refreshExpiresAt);
+	sessionLookups.set(event, Promise.resolve(session));
+	return session;
+}
 
-	// Use cached access token when valid to avoid unnecessary refresh calls.
-	const cached = accessCache.get(storedRefresh.refresh_token);
-	if (cached && !isAccessExpiringSoon(cached)) {
-		cached.last_used_at = Date.now();
-		const user = userFromAccessToken(cached.access_token);
-		if (user) return user;
+// The IdP answered and refused the token (expired, revoked, rotated out), as opposed to being
+// unreachable or erroring.
+const isRefreshRejected = (e: unknown) =>
+	e instanceof ApiError && (e.status === 400 || e.status === 401);
+
+// Upstream trouble rather than a bad token: worth keeping the session and retrying later.
+export const isTransientAuthError = (e: unknown) =>
+	e instanceof ApiError && (e.status === 429 || e.status >= 500);
+
+// Refreshes in flight, per refresh token. Parallel requests from one page load all need a new
+// access token at once; they share one upstream call instead of racing, which with rotating
+// refresh tokens would leave all but the first holding an invalidated token.
+const refreshFlights = new Map<string, Promise<JwtLike>>();
+
+function redeemRefreshToken(provider: SessionProvider, refreshToken: string): Promise<JwtLike> {
+	const key = `${provider}:${refreshToken}`;
+	const inFlight = refreshFlights.get(key);
+	if (inFlight) {
+		refreshResults.inc({ provider, result: 'joined' });
+		return inFlight;
 	}
 
-	const refreshed = await userRefreshWithToken(storedRefresh.refresh_token);
-	storeRefresh(event, storedRefresh.refresh_token, refreshed.jwt.refresh_expires_in);
-	accessCache.set(storedRefresh.refresh_token, {
-		access_token: refreshed.jwt.access_token,
-		expires_at: getJwtExpiresAt(refreshed.jwt.access_token),
-		last_used_at: Date.now()
+	const flight = (async () => {
+		const breaker = refreshBreakers[provider];
+		if (!breaker.tryAcquire()) {
+			refreshResults.inc({ provider, result: 'short_circuited' });
+			const retryAfter = Math.ceil(breaker.retryAfterMs() / 1000);
+			throw new ApiError(
+				`Token refresh is unavailable (${provider})`,
+				503,
+				`retry after ${retryAfter}s`
+			);
+		}
+
+		refreshAttempts.inc({ provider });
+		const endTimer = refreshDuration.startTimer({ provider });
+		try {
+			const refreshed =
+				provider === 'oidc'
+					? await refreshOidcTokens(refreshToken)
+					: (await userRefreshWithToken(refreshToken)).jwt;
+			breaker.recordSuccess();
+			refreshResults.inc({ provider, result: 'success' });
+			return refreshed;
+		} catch (e) {
+			if (isRefreshRejected(e)) {
+				// The upstream is healthy; it just won't take this token.
+				breaker.recordSuccess();
+				refreshResults.inc({ provider, result: 'rejected' });
+				throw e;
+			}
+			breaker.recordFailure();
+			refreshResults.inc({ provider, result: 'failure' });
+			// Network errors surface as 503s like any other upstream outage.
+			throw e instanceof ApiError
+				? e
+				: new ApiError(`Token refresh failed (${provider})`, 503, String(e));
+		} finally {
+			endTimer();
+		}
+	})().finally(() => refreshFlights.delete(key));
+
+	refreshFlights.set(key, flight);
+	return flight;
+}
+
+// Turn a pre-session refresh cookie into a server-side session, once.
+async function migrateLegacyRefresh(event: RequestEvent): Promise<Session | null> {
+	const legacy = getLegacyRefresh(event);
+	if (!legacy) return null;
+	event.cookies.delete(LEGACY_REFRESH_COOKIE, { path: '/' });
+	if (legacy.refresh_expires_at && Date.now() > legacy.refresh_expires_at) return null;
+
+	const refreshed = await redeemRefreshToken('sso', legacy.refresh_token);
+	const user = userFromAccessToken(refreshed.access_token);
+	if (!user) throw new ApiError('Refreshed access token has no user', 502);
+	return createSession(event, {
+		...user,
+		jwt: { ...refreshed, refresh_token: refreshed.refresh_token || legacy.refresh_token }
 	});
-	trimAccessCacheIfNeeded();
-	return refreshed;
+}
+
+async function loadSession(event: RequestEvent): Promise<Session | null> {
+	const token = event.cookies.get(SESSION_COOKIE);
+	if (!token) return migrateLegacyRefresh(event);
+
+	const store = getSessionStore();
+	const session = await store.get(hashSessionToken(token));
+	const now = Date.now();
+	if (!session || isSessionExpired(session, now)) {
+		if (session) await store.delete(session.id);
+		event.cookies.delete(SESSION_COOKIE, { path: '/' });
+		return null;
+	}
+	if (now - session.lastSeenAt > SESSION_TOUCH_INTERVAL_MS) {
+		session.lastSeenAt = now;
+		await store.update(session.id, { lastSeenAt: now });
+	}
+	return session;
+}
+
+export function getSessionFromEvent(event: RequestEvent): Promise<Session | null> {
+	let lookup = sessionLookups.get(event);
+	if (!lookup) {
+		lookup = loadSession(event);
+		sessionLookups.set(event, lookup);
+	}
+	return lookup;
+}
+
+// Swap in a fresh access token, and the rotated refresh token when the IdP issues one. A
+// refresh the IdP rejects ends the session. OIDC sessions redeem their refresh token at
+// Keycloak's token endpoint, the rest through the SSO service.
+async function refreshSession(session: Session): Promise<string> {
+	const store = getSessionStore();
+	// A request that loaded the session earlier may find another request (or replica) already
+	// refreshed it, and its copy's refresh token rotated out; use the stored tokens then.
+	const latest = await store.get(session.id);
+	if (!latest) throw new ApiError('Session has ended', 401);
+	if (latest.accessToken && !isAccessExpiringSoon(latest)) {
+		Object.assign(session, latest);
+		return latest.accessToken;
+	}
+
+	let refreshed: JwtLike;
+	try {
+		refreshed = await redeemRefreshToken(latest.provider, latest.refreshToken);
+	} catch (e) {
+		if (isRefreshRejected(e)) await store.delete(session.id);
+		throw e;
+	}
+
+	const patch = {
+		accessToken: refreshed.access_token,
+		accessExpiresAt: getJwtExpiresAt(refreshed.access_token),
+		refreshToken: refreshed.refresh_token || latest.refreshToken,
+		// Refresh endpoint can extend refresh lifetime.
+		refreshExpiresAt: expiresAtFromNow(refreshed.refresh_expires_in) ?? latest.refreshExpiresAt,
+		idToken: latest.provider === 'oidc' ? refreshed.id_token || latest.idToken : null
+	};
+	Object.assign(session, patch);
+	await store.update(session.id, patch);
+	return refreshed.access_token;
+}
+
+async function getSessionAccessToken(event: RequestEvent): Promise<string | null> {
+	const session = await getSessionFromEvent(event);
+	if (!session) return null;
+	if (session.accessToken && !isAccessExpiringSoon(session)) return session.accessToken;
+	return refreshSession(session);
+}
+
+export async function getBearerFromEvent(event: RequestEvent): Promise<string | null> {
+	const incoming = event.request.headers.get('authorization');
+	// API keys are checked in hooks.server.ts and never forwarded upstream.
+	if (incoming && /^Bearer\s+.+/i.test(incoming)) {
+		return looksLikeApiKey(incoming.replace(/^Bearer\s+/i, '').trim()) ? null : incoming;
+	}
+
+	const accessToken = await getSessionAccessToken(event);
+	return accessToken ? `Bearer ${accessToken}` : null;
 }
 
 export async function loginFromEvent(
@@ -339,9 +517,9 @@ export async function loginFromEvent(
 		body: JSON.stringify({ username, password })
 	});
 
-	const refresh = response.jwt.refresh_token;
-	if (!refresh) throw new ApiError('Login did not return a refresh token', 502);
-	storeRefresh(event, refresh, response.jwt.refresh_expires_in);
+	// A fresh session per login; whatever this browser held before is discarded.
+	await logoutFromEvent(event);
+	await createSession(event, response);
 
 	return {
 		...response,
@@ -353,8 +531,68 @@ export async function loginFromEvent(
 	};
 }
 
+function getOidcRedirectUri(event: RequestEvent): string {
+	return (env.OIDC_REDIRECT_URI ?? '').trim() || `${event.url.origin}/auth/callback`;
+}
+
+// Start an authorization-code login; returns the Keycloak URL to send the browser to.
+export function beginOidcLoginFromEvent(
+	event: RequestEvent,
+	returnTo?: string | null,
+	idpHint?: string | null
+): string {
+	const { url, pending } = createOidcLoginRequest({
+		redirectUri: getOidcRedirectUri(event),
+		returnTo,
+		idpHint
+	});
+	event.cookies.set(OIDC_LOGIN_COOKIE, Buffer.from(JSON.stringify(pending)).toString('base64url'), {
+		path: '/auth',
+		sameSite: 'lax',
+		httpOnly: true,
+		secure: isSecureRequest(event),
+		maxAge: OIDC_LOGIN_MAX_AGE_SECONDS
+	});
+	return url;
+}
+
+function takePendingOidcLogin(event: RequestEvent): PendingOidcLogin | null {
+	const raw = event.cookies.get(OIDC_LOGIN_COOKIE);
+	if (!raw) return null;
+	// Single use, whether or not this callback succeeds.
+	event.cookies.delete(OIDC_LOGIN_COOKIE, { path: '/auth' });
+	return safeJsonParse<PendingOidcLogin>(Buffer.from(raw, 'base64url').toString('utf8'));
+}
+
+// Finish the login on /auth/callback: check state, redeem the code with the PKCE verifier and
+// start a session. Returns the same-origin path the login started from.
+export async function completeOidcLoginFromEvent(event: RequestEvent): Promise<string> {
+	const pending = takePendingOidcLogin(event);
+	const params = event.url.searchParams;
+	if (!pending || !pending.state || params.get('state') !== pending.state) {
+		throw new ApiError('OIDC login state mismatch', 400);
+	}
+	const idpError = params.get('error');
+	if (idpError) {
+		throw new ApiError(`OIDC login failed: ${idpError}`, 400, params.get('error_description') ?? '');
+	}
+	const code = params.get('code');
+	if (!code) throw new ApiError('OIDC callback is missing the authorization code', 400);
+
+	const { tokens, claims } = await exchangeOidcCode(pending, code);
+	const user = userFromClaims(claims, tokens.access_token);
+	if (!user) throw new ApiError('ID token is missing sub or preferred_username', 502);
+
+	await logoutFromEvent(event);
+	await createSession(event, { ...user, jwt: tokens }, 'oidc');
+	return pending.returnTo;
+}
+
+// API-key requests reach upstream as the app's service account; everything else as the user.
 export async function fetchWithAuth(event: RequestEvent, input: RequestInfo | URL, init?: RequestInit) {
-	const bearer = await getBearerFromEvent(event);
+	const bearer = event.locals.apiKey
+		? `Bearer ${await getServiceAccessToken()}`
+		: await getBearerFromEvent(event);
 	if (!bearer) throw new ApiError('Not authenticated', 401);
 
 	return fetch(input, {
@@ -367,6 +605,65 @@ export async function fetchWithAuth(event: RequestEvent, input: RequestInfo | UR
 }
 
 export function clearAuthCookies(event: RequestEvent) {
-	// keep existing cookie name for compatibility
-	event.cookies.delete(REFRESH_COOKIE, { path: '/' });
+	event.cookies.delete(SESSION_COOKIE, { path: '/' });
+	event.cookies.delete(LEGACY_REFRESH_COOKIE, { path: '/' });
+	sessionLookups.delete(event);
+}
+
+// Revoke this browser's session server-side, not just forget the cookie. Returns the ended
+// session, if there was one, so OIDC logins can also be signed out at Keycloak.
+export async function logoutFromEvent(event: RequestEvent): Promise<Session | null> {
+	const token = event.cookies.get(SESSION_COOKIE);
+	clearAuthCookies(event);
+	if (!token) return null;
+	const store = getSessionStore();
+	const id = hashSessionToken(token);
+	const session = await store.get(id);
+	await store.delete(id);
+	return session;
+}
+
+export type SessionSummary = Pick<Session, 'id' | 'createdAt' | 'lastSeenAt' | 'ipAddress'> & {
+	browser: string;
+	os: string;
+	current: boolean;
+};
+
+// The signed-in user's sessions across all devices, most recently used first.
+export async function listSessionsFromEvent(event: RequestEvent): Promise<SessionSummary[]> {
+	const current = await getSessionFromEvent(event);
+	if (!current) throw new ApiError('Not authenticated', 401);
+	const sessions = await getSessionStore().listByUser(current.userId);
+	return sessions
+		.filter((s) => !isSessionExpired(s))
+		.map((s) => {
+			const { browser, os } = classifyUserAgent(s.userAgent);
+			return {
+				id: s.id,
+				createdAt: s.createdAt,
+				lastSeenAt: s.lastSeenAt,
+				ipAddress: s.ipAddress,
+				browser,
+				os,
+				current: s.id === current.id
+			};
+		});
+}
+
+// End one of the user's sessions by id (as listed above). Returns false if it isn't theirs.
+export async function revokeSessionFromEvent(event: RequestEvent, id: string): Promise<boolean> {
+	const current = await getSessionFromEvent(event);
+	if (!current) throw new ApiError('Not authenticated', 401);
+	const store = getSessionStore();
+	const target = await store.get(id);
+	if (!target || target.userId !== current.userId) return false;
+	await store.delete(id);
+	if (id === current.id) clearAuthCookies(event);
+	return true;
+}
+
+export async function revokeOtherSessionsFromEvent(event: RequestEvent): Promise<number> {
+	const current = await getSessionFromEvent(event);
+	if (!current) throw new ApiError('Not authenticated', 401);
+	return getSessionStore().deleteByUser(current.userId, current.id);
 }
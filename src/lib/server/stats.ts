@@ -0,0 +1,144 @@
+import {
+	STATS_RANGES,
+	type PlaysPoint,
+	type StatsRange,
+	type StatsSummary,
+	type StatsWindow,
+	type VideoStat
+} from '$lib/api/stats';
+import { getPostgresPool } from '$lib/server/postgres';
+import { toCdnUrl, toFullresKey, toThumbKey } from '$lib/server/spaces';
+
+// Read-side queries over the analytics tables. Timestamps are epoch ms (bigint), so buckets
+// are plain integer division rather than date_trunc.
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const RANGE_MS: Record<StatsRange, number> = {
+	'24h': DAY_MS,
+	'7d': 7 * DAY_MS,
+	'30d': 30 * DAY_MS,
+	'90d': 90 * DAY_MS
+};
+
+// A viewer is an (IP, user-agent) pair, compared by hash. With ANALYTICS_IP_MODE=hmac the IP is
+// already keyed; with truncate, viewers on one /24 or /48 sharing a browser build merge.
+const VIEWER_KEY = `md5(ip_address || ' ' || useragent)`;
+
+export const parseStatsRange = (value: string | null): StatsRange =>
+	STATS_RANGES.find((r) => r === value) ?? '7d';
+
+export const getStatsWindow = (range: StatsRange, now = Date.now()): StatsWindow => {
+	const bucketMs = range === '24h' ? HOUR_MS : DAY_MS;
+	const from = Math.floor((now - RANGE_MS[range]) / bucketMs) * bucketMs;
+	return { range, from, to: now, bucketMs };
+};
+
+type CountRow = { video_id: string; count: number; viewers: number; has_thumb: boolean | null };
+
+const toVideoStat = (row: CountRow): VideoStat => ({
+	videoId: row.video_id,
+	count: row.count,
+	viewers: row.viewers,
+	thumbUrl:
+		row.has_thumb === null
+			? null
+			: toCdnUrl(row.has_thumb ? toThumbKey(row.video_id) : toFullresKey(row.video_id))
+});
+
+export async function getStatsSummary(window: StatsWindow): Promise<StatsSummary> {
+	const pool = getPostgresPool();
+	const params = [window.from, window.to];
+	const [plays, visits] = await Promise.all([
+		pool.query<{ plays: number; viewers: number; videos: number }>(
+			`select count(*)::int as plays,
+				count(distinct ${VIEWER_KEY})::int as viewers,
+				count(distinct video_id)::int as videos
+			from video_hits
+			where timestamp >= $1 and timestamp < $2`,
+			params
+		),
+		pool.query<{ visits: number; deep_links: number }>(
+			`select count(*)::int as visits, count(video_id)::int as deep_links
+			from home_hits
+			where timestamp >= $1 and timestamp < $2`,
+			params
+		)
+	]);
+	return {
+		window,
+		plays: plays.rows[0]?.plays ?? 0,
+		viewers: plays.rows[0]?.viewers ?? 0,
+		videos: plays.rows[0]?.videos ?? 0,
+		visits: visits.rows[0]?.visits ?? 0,
+		deepLinks: visits.rows[0]?.deep_links ?? 0
+	};
+}
+
+// One point per bucket across the whole window, zero-filled so charts don't skip gaps.
+export async function getPlaysOverTime(
+	window: StatsWindow,
+	videoId?: string | null
+): Promise<PlaysPoint[]> {
+	const params: unknown[] = [window.from, window.to, window.bucketMs];
+	let where = 'timestamp >= $1 and timestamp < $2';
+	if (videoId) {
+		params.push(videoId);
+		where += ` and video_id = $${params.length}`;
+	}
+
+	const { rows } = await getPostgresPool().query<{ t: string; plays: number; viewers: number }>(
+		`select (timestamp / $3) * $3 as t,
+			count(*)::int as plays,
+			count(distinct ${VIEWER_KEY})::int as viewers
+		from video_hits
+		where ${where}
+		group by 1
+		order by 1`,
+		params
+	);
+
+	const byBucket = new Map(rows.map((r) => [Number(r.t), r]));
+	const points: PlaysPoint[] = [];
+	for (let t = window.from; t < window.to; t += window.bucketMs) {
+		const row = byBucket.get(t);
+		points.push({ t, plays: row?.plays ?? 0, viewers: row?.viewers ?? 0 });
+	}
+	return points;
+}
+
+export async function getTopVideos(window: StatsWindow, limit: number): Promise<VideoStat[]> {
+	const { rows } = await getPostgresPool().query<CountRow>(
+		`select h.video_id, h.count, h.viewers, v.has_thumb
+		from (
+			select video_id, count(*)::int as count, count(distinct ${VIEWER_KEY})::int as viewers
+			from video_hits
+			where timestamp >= $1 and timestamp < $2
+			group by video_id
+		) h
+		left join videos v on v.slug = h.video_id and v.deleted_at is null
+		order by h.count desc, h.video_id asc
+		limit $3`,
+		[window.from, window.to, limit]
+	);
+	return rows.map(toVideoStat);
+}
+
+// Feed loads that arrived with `?v=<slug>`, i.e. someone opened a shared link.
+export async function getDeepLinks(window: StatsWindow, limit: number): Promise<VideoStat[]> {
+	const { rows } = await getPostgresPool().query<CountRow>(
+		`select h.video_id, h.count, h.viewers, v.has_thumb
+		from (
+			select video_id, count(*)::int as count, count(distinct ${VIEWER_KEY})::int as viewers
+			from home_hits
+			where timestamp >= $1 and timestamp < $2 and video_id is not null
+			group by video_id
+		) h
+		left join videos v on v.slug = h.video_id and v.deleted_at is null
+		order by h.count desc, h.video_id asc
+		limit $3`,
+		[window.from, window.to, limit]
+	);
+	return rows.map(toVideoStat);
+}
@@ -0,0 +1,60 @@
+import { env } from '$env/dynamic/private';
+import { getPostgresPool } from '$lib/server/postgres';
+import { normalizeTag, uniqTags, type TagCount } from '$lib/tags';
+
+let aliases: { raw: string; map: Map<string, string> } | undefined;
+
+// TAG_ALIASES="cats=cat,kitty=cat" maps variants onto one canonical tag. Both sides are
+// normalized, so the config doesn't need to care about case or spacing.
+const getTagAliases = () => {
+	const raw = env.TAG_ALIASES ?? '';
+	if (aliases?.raw === raw) return aliases.map;
+
+	const map = new Map<string, string>();
+	for (const pair of raw.split(',')) {
+		const [from, to] = pair.split('=');
+		const alias = normalizeTag(from ?? '');
+		const target = normalizeTag(to ?? '');
+		if (!alias || !target || alias === target) continue;
+		map.set(alias, target);
+	}
+	aliases = { raw, map };
+	return map;
+};
+
+export const canonicalizeTag = (value: string) => {
+	const normalized = normalizeTag(value);
+	return getTagAliases().get(normalized) ?? normalized;
+};
+
+export const canonicalizeTags = (tags: string[]) => uniqTags(tags, canonicalizeTag);
+
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, (c) => `\\${c}`);
+
+// Every tag in the (non-deleted) catalog with the number of videos carrying it, most used first.
+export async function listTagVocabulary({
+	prefix,
+	limit
+}: {
+	prefix?: string;
+	limit: number;
+}): Promise<TagCount[]> {
+	const params: unknown[] = [limit];
+	let where = 'v.deleted_at is null';
+	const normalizedPrefix = prefix ? normalizeTag(prefix) : '';
+	if (normalizedPrefix) {
+		params.push(`${escapeLike(normalizedPrefix)}%`);
+		where += ` and t.tag like $${params.length}`;
+	}
+
+	const { rows } = await getPostgresPool().query<{ tag: string; count: number }>(
+		`select t.tag, count(*)::int as count
+		from videos v cross join lateral unnest(v.tags) as t(tag)
+		where ${where}
+		group by t.tag
+		order by count desc, t.tag asc
+		limit $1`,
+		params
+	);
+	return rows;
+}
@@ -0,0 +1,135 @@
+import { env } from '$env/dynamic/private';
+import { randomBytes } from 'node:crypto';
+import { HeadObjectCommand, PutObjectCommand } from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { ApiError } from '$lib/api/error';
+import { isUploadContentType, type CreateUploadRequest, type UploadTicket } from '$lib/api/uploads';
+import type { VideoItem } from '$lib/api/videos';
+import { getPostgresPool } from '$lib/server/postgres';
+import { getSpacesClient, getSpacesConfig, toFullresKey } from '$lib/server/spaces';
+import { registerUploadedVideo } from '$lib/server/video-catalog';
+
+// Browser and bot uploads go straight to the bucket: the app hands out a presigned PUT for
+// `_full/<slug>.mp4`, then registers the video once the object is there. Nothing but the
+// request metadata passes through this server.
+
+const DEFAULT_MAX_BYTES = 512 * 1024 * 1024;
+const DEFAULT_URL_TTL_SECONDS = 15 * 60;
+const SLUG_ATTEMPTS = 5;
+
+const readPositiveInt = (value: string | undefined, fallback: number) => {
+	const parsed = Number.parseInt(value ?? '', 10);
+	return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+export const getMaxUploadBytes = () => readPositiveInt(env.UPLOAD_MAX_BYTES, DEFAULT_MAX_BYTES);
+const getUrlTtlSeconds = () => readPositiveInt(env.UPLOAD_URL_TTL_SECONDS, DEFAULT_URL_TTL_SECONDS);
+
+// 11 characters of [A-Za-z0-9_-], the same shape rename_fullres.sh gives bucket files.
+const newSlug = () => randomBytes(8).toString('base64url');
+
+type UploadRow = {
+	slug: string;
+	content_type: string;
+	size_bytes: string;
+	created_by: string;
+	completed_at: string | null;
+};
+
+export function parseCreateUploadRequest(body: unknown): CreateUploadRequest {
+	const { contentType, size } = (body ?? {}) as Partial<Record<keyof CreateUploadRequest, unknown>>;
+	if (typeof contentType !== 'string' || !isUploadContentType(contentType)) {
+		throw new ApiError('Only video/mp4 uploads are accepted', 415);
+	}
+	if (typeof size !== 'number' || !Number.isInteger(size) || size <= 0) {
+		throw new ApiError('Invalid request body; expected { contentType, size }', 400);
+	}
+	if (size > getMaxUploadBytes()) {
+		throw new ApiError(`Uploads are limited to ${getMaxUploadBytes()} bytes`, 413);
+	}
+	return { contentType, size };
+}
+
+// Reserve a slug nobody has used (neither a catalog video nor another upload) and presign the
+// PUT. The signature covers Content-Type and Content-Length, so the object has to match.
+export async function createUpload(
+	request: CreateUploadRequest,
+	createdBy: string
+): Promise<UploadTicket> {
+	const ttlSeconds = getUrlTtlSeconds();
+	const now = Date.now();
+	const expiresAt = now + ttlSeconds * 1000;
+
+	let slug: string | null = null;
+	for (let attempt = 0; attempt < SLUG_ATTEMPTS && !slug; attempt += 1) {
+		const candidate = newSlug();
+		const { rows } = await getPostgresPool().query<{ slug: string }>(
+			`insert into uploads (slug, content_type, size_bytes, created_by, created_at, expires_at)
+			select $1, $2, $3, $4, $5, $6
+			where not exists (select 1 from videos where slug = $1)
+			on conflict (slug) do nothing
+			returning slug`,
+			[candidate, request.contentType, request.size, createdBy, now, expiresAt]
+		);
+		slug = rows[0]?.slug ?? null;
+	}
+	if (!slug) throw new ApiError('Could not allocate a video id; try again', 503);
+
+	const { bucket } = getSpacesConfig();
+	const url = await getSignedUrl(
+		getSpacesClient(),
+		new PutObjectCommand({
+			Bucket: bucket,
+			Key: toFullresKey(slug),
+			ContentType: request.contentType,
+			ContentLength: request.size,
+			// Same as sync.sh: the CDN serves objects straight from the bucket.
+			ACL: 'public-read'
+		}),
+		{ expiresIn: ttlSeconds, signableHeaders: new Set(['content-type', 'content-length']) }
+	);
+	// A checksum in the URL would be the empty body's (see getSpacesClient), so no upload could
+	// ever match it.
+	const signedParams = [...new URL(url).searchParams.keys()].map((k) => k.toLowerCase());
+	if (signedParams.some((k) => k.startsWith('x-amz-checksum-'))) {
+		throw new Error('Presigned upload URL carries a body checksum; check the S3 client config');
+	}
+
+	return { slug, url, method: 'PUT', headers: { 'content-type': request.contentType }, expiresAt };
+}
+
+// Check the uploaded object against the reservation and put it in the catalog. Only whoever
+// announced the upload (see actorOf) may complete it. Idempotent: completing twice returns the
+// same video.
+export async function completeUpload(slug: string, requestedBy: string): Promise<VideoItem> {
+	const pool = getPostgresPool();
+	const { rows } = await pool.query<UploadRow>(
+		'select slug, content_type, size_bytes, created_by, completed_at from uploads where slug = $1',
+		[slug]
+	);
+	const upload = rows[0];
+	if (!upload) throw new ApiError('Unknown upload', 404);
+	if (upload.created_by !== requestedBy) throw new ApiError('Not your upload', 403);
+
+	const { bucket } = getSpacesConfig();
+	const head = await getSpacesClient()
+		.send(new HeadObjectCommand({ Bucket: bucket, Key: toFullresKey(slug) }))
+		.catch((e: { name?: string; $metadata?: { httpStatusCode?: number } }) => {
+			if (e?.name === 'NotFound' || e?.$metadata?.httpStatusCode === 404) return null;
+			throw e;
+		});
+	if (!head) throw new ApiError('The file has not been uploaded yet', 409);
+	if (head.ContentLength !== Number(upload.size_bytes)) {
+		throw new ApiError('Uploaded file size does not match the announced size', 422);
+	}
+
+	const video = await registerUploadedVideo(
+		slug,
+		head.ContentLength,
+		head.LastModified ? head.LastModified.getTime() : Date.now()
+	);
+	if (upload.completed_at === null) {
+		await pool.query('update uploads set completed_at = $2 where slug = $1', [slug, Date.now()]);
+	}
+	return video;
+}
@@ -0,0 +1,79 @@
+// Coarse user-agent classification for metrics labels. Raw user-agent strings are effectively
+// unique per device, so metrics only ever see these small, fixed vocabularies.
+
+export type UserAgentClass = {
+	browser: string;
+	os: string;
+	// Bot family name, or "none" for (apparently) human traffic.
+	bot: string;
+};
+
+// Order matters: the first match wins, so more specific patterns come first.
+const BOTS: Array<[RegExp, string]> = [
+	[/googlebot|google-inspectiontool|adsbot-google|mediapartners-google/i, 'google'],
+	[/bingbot|bingpreview|msnbot/i, 'bing'],
+	[/discordbot/i, 'discord'],
+	[/slackbot|slack-imgproxy/i, 'slack'],
+	[/twitterbot/i, 'twitter'],
+	[/facebookexternalhit|facebookcatalog|meta-externalagent/i, 'facebook'],
+	[/telegrambot/i, 'telegram'],
+	[/whatsapp/i, 'whatsapp'],
+	[/applebot/i, 'apple'],
+	[/yandex/i, 'yandex'],
+	[/baiduspider/i, 'baidu'],
+	[/duckduckbot/i, 'duckduckgo'],
+	[/gptbot|chatgpt-user|oai-searchbot/i, 'openai'],
+	[/claudebot|claude-web|anthropic-ai/i, 'anthropic'],
+	[/ahrefsbot|semrushbot|mj12bot|dotbot|petalbot/i, 'seo'],
+	[/headlesschrome|phantomjs|puppeteer|playwright/i, 'headless'],
+	[
+		/curl\/|wget\/|python-requests|python-urllib|aiohttp|go-http-client|okhttp|node-fetch|axios|undici/i,
+		'http_client'
+	],
+	[/bot\b|crawler|spider|scraper/i, 'other']
+];
+
+const BROWSERS: Array<[RegExp, string]> = [
+	[/edg(e|a|ios)?\//i, 'edge'],
+	[/opr\/|opera/i, 'opera'],
+	[/samsungbrowser/i, 'samsung'],
+	[/firefox|fxios/i, 'firefox'],
+	[/chrome|crios|chromium/i, 'chrome'],
+	[/safari/i, 'safari']
+];
+
+const OSES: Array<[RegExp, string]> = [
+	[/iphone|ipad|ipod/i, 'ios'],
+	[/android/i, 'android'],
+	[/\bcros\b/i, 'chromeos'],
+	[/windows/i, 'windows'],
+	[/mac os x|macintosh/i, 'macos'],
+	[/linux/i, 'linux']
+];
+
+const firstMatch = (ua: string, table: Array<[RegExp, string]>, fallback: string) => {
+	for (const [pattern, name] of table) {
+		if (pattern.test(ua)) return name;
+	}
+	return fallback;
+};
+
+const cache = new Map<string, UserAgentClass>();
+const CACHE_MAX = 2000;
+
+export function classifyUserAgent(useragent: string | null | undefined): UserAgentClass {
+	const ua = (useragent ?? '').trim();
+	if (!ua || ua === 'unknown') return { browser: 'unknown', os: 'unknown', bot: 'none' };
+
+	const cached = cache.get(ua);
+	if (cached) return cached;
+
+	const result: UserAgentClass = {
+		browser: firstMatch(ua, BROWSERS, 'other'),
+		os: firstMatch(ua, OSES, 'other'),
+		bot: firstMatch(ua, BOTS, 'none')
+	};
+	if (cache.size >= CACHE_MAX) cache.clear();
+	cache.set(ua, result);
+	return result;
+}
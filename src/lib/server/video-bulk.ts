@@ -0,0 +1,148 @@
+import { env } from '$env/dynamic/private';
+import { ApiError } from '$lib/api/error';
+import {
+	isBulkVideoAction,
+	type BulkVideoAction,
+	type BulkVideoRequest,
+	type BulkVideoResponse,
+	type BulkVideoResult
+} from '$lib/api/videos';
+import type { ApiKeyScope } from '$lib/api/api-keys';
+import type { Role } from '$lib/roles';
+import { counter } from '$lib/server/metrics';
+import { canonicalizeTags } from '$lib/server/tags';
+import { recordVideoTags } from '$lib/server/video-catalog';
+import { removeVideo, restoreVideo } from '$lib/server/video-deletion';
+import { getUpstreamVideo, putUpstreamVideo, type UpstreamFetch } from '$lib/server/video-service';
+
+// Moderation actions over many videos at once. Items run a few at a time and fail on their
+// own: one bad id (or one upstream error) is reported in its result, not thrown.
+
+const MAX_BULK_IDS = 100;
+const MAX_BULK_TAGS = 20;
+const DEFAULT_CONCURRENCY = 4;
+
+// The same role / scope the single-video endpoints require for each action.
+export const BULK_ACTION_ACCESS: Record<BulkVideoAction, { role: Role; scope: ApiKeyScope }> = {
+	'add-tags': { role: 'tagger', scope: 'videos:tag' },
+	'remove-tags': { role: 'tagger', scope: 'videos:tag' },
+	delete: { role: 'moderator', scope: 'videos:delete' },
+	restore: { role: 'moderator', scope: 'videos:delete' }
+};
+
+const bulkItems = counter({
+	name: 'video_bulk_items_total',
+	help: 'Videos processed by bulk actions, by action and result (ok, failed)',
+	labelNames: ['action', 'result'] as const
+});
+
+const getConcurrency = () => {
+	const parsed = Number.parseInt(env.VIDEO_BULK_CONCURRENCY ?? '', 10);
+	return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_CONCURRENCY;
+};
+
+export function parseBulkVideoRequest(body: unknown): BulkVideoRequest {
+	const { action, ids, tags } = (body ?? {}) as Partial<Record<keyof BulkVideoRequest, unknown>>;
+	if (typeof action !== 'string' || !isBulkVideoAction(action)) {
+		throw new ApiError('Invalid request body; expected { action, ids, tags? }', 400);
+	}
+	if (!Array.isArray(ids) || ids.length === 0 || !ids.every((id) => typeof id === 'string')) {
+		throw new ApiError('Expected a non-empty array of video ids', 400);
+	}
+	const uniqueIds = [...new Set(ids.map((id: string) => id.trim()).filter(Boolean))];
+	if (uniqueIds.length > MAX_BULK_IDS) {
+		throw new ApiError(`At most ${MAX_BULK_IDS} videos per request`, 400);
+	}
+
+	if (action !== 'add-tags' && action !== 'remove-tags') return { action, ids: uniqueIds };
+	const canonical = Array.isArray(tags)
+		? canonicalizeTags(tags.filter((t): t is string => typeof t === 'string'))
+		: [];
+	if (canonical.length === 0 || canonical.length > MAX_BULK_TAGS) {
+		throw new ApiError(`Expected between 1 and ${MAX_BULK_TAGS} tags`, 400);
+	}
+	return { action, ids: uniqueIds, tags: canonical };
+}
+
+// Like Promise.all over `items.map(fn)`, but with at most `limit` calls in flight.
+async function mapWithConcurrency<T, R>(
+	items: T[],
+	limit: number,
+	fn: (item: T) => Promise<R>
+): Promise<R[]> {
+	const results = new Array<R>(items.length);
+	let next = 0;
+	const worker = async () => {
+		while (next < items.length) {
+			const i = next++;
+			results[i] = await fn(items[i]!);
+		}
+	};
+	await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+	return results;
+}
+
+// Read-modify-write against the video service, skipping the write when nothing changes.
+async function updateTags(
+	upstreamFetch: UpstreamFetch,
+	videoId: string,
+	change: (current: string[]) => string[]
+) {
+	const video = await getUpstreamVideo(upstreamFetch, videoId);
+	const current = canonicalizeTags(video.tags);
+	const tags = canonicalizeTags(change(current));
+	if (tags.length !== current.length || tags.some((t, i) => t !== current[i])) {
+		await putUpstreamVideo(upstreamFetch, { id: videoId, tags });
+	}
+	await recordVideoTags(videoId, tags).catch((e) => {
+		console.error(`Failed to mirror tags for video ${videoId}`, e);
+	});
+}
+
+async function applyToVideo(
+	request: BulkVideoRequest,
+	videoId: string,
+	ctx: { actor: string; upstreamFetch: UpstreamFetch }
+) {
+	const tags = request.tags ?? [];
+	switch (request.action) {
+		case 'add-tags':
+			return updateTags(ctx.upstreamFetch, videoId, (current) => [...current, ...tags]);
+		case 'remove-tags': {
+			const removed = new Set(tags);
+			return updateTags(ctx.upstreamFetch, videoId, (current) =>
+				current.filter((t) => !removed.has(t))
+			);
+		}
+		case 'delete':
+			await removeVideo(videoId, ctx.actor);
+			return;
+		case 'restore':
+			await restoreVideo(videoId, ctx.actor);
+			return;
+	}
+}
+
+export async function runBulkVideoAction(
+	request: BulkVideoRequest,
+	ctx: { actor: string; upstreamFetch: UpstreamFetch }
+): Promise<BulkVideoResponse> {
+	const results = await mapWithConcurrency(
+		request.ids,
+		getConcurrency(),
+		async (id): Promise<BulkVideoResult> => {
+			try {
+				await applyToVideo(request, id, ctx);
+				bulkItems.inc({ action: request.action, result: 'ok' });
+				return { id, ok: true, status: 200 };
+			} catch (e) {
+				bulkItems.inc({ action: request.action, result: 'failed' });
+				if (e instanceof ApiError) return { id, ok: false, status: e.status, error: e.message };
+				console.error(`[BULK] ${request.action} failed for video ${id}`, e);
+				return { id, ok: false, status: 500, error: 'Internal error' };
+			}
+		}
+	);
+	const succeeded = results.filter((r) => r.ok).length;
+	return { action: request.action, results, succeeded, failed: results.length - succeeded };
+}
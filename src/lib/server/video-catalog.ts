@@ -0,0 +1,625 @@
+import { env } from '$env/dynamic/private';
+import type { VideoFilter, VideoItem } from '$lib/api/videos';
+import { captionLabel, normalizeCaptionLang, toCaptionPath } from '$lib/captions';
+import { counter } from '$lib/server/metrics';
+import { getPostgresPool, initPostgres } from '$lib/server/postgres';
+import { canonicalizeTags } from '$lib/server/tags';
+import {
+	CAPTIONS_PREFIX,
+	FULLRES_PREFIX,
+	FULLRES_SUFFIX,
+	HLS_MASTER_PLAYLIST,
+	HLS_PREFIX,
+	POSTERS_PREFIX,
+	POSTER_FORMATS,
+	POSTER_HIDPI_SUFFIX,
+	THUMBS_PREFIX,
+	THUMB_SUFFIX,
+	listAllObjects,
+	parseCaptionKey,
+	toCdnUrl,
+	toFullresKey,
+	toHlsKey,
+	toPosterKey,
+	toThumbKey,
+	type PosterFormat
+} from '$lib/server/spaces';
+
+export type VideoSortBy = 'id' | 'created_at';
+
+// Opaque to clients. Anchored to the last item served (slug + sort key) rather than an
+// offset, so catalog changes between requests can't shift pages under a scrolling viewer.
+export type VideosCursor = {
+	o: VideoSortBy;
+	s: string;
+	t: number;
+};
+
+type VideoRow = {
+	slug: string;
+	last_modified: string;
+	has_thumb: boolean;
+	has_hls: boolean;
+	caption_langs: string[];
+	poster_format: PosterFormat | null;
+	poster_hidpi: boolean;
+};
+
+// Everything toVideoItem reads.
+const VIDEO_ROW_COLUMNS =
+	'slug, last_modified, has_thumb, has_hls, caption_langs, poster_format, poster_hidpi';
+
+const DEFAULT_RECONCILE_INTERVAL_MS = 60_000 * 3;
+const COUNT_CACHE_TTL_MS = 30_000;
+const COUNT_CACHE_MAX = 500;
+// Arbitrary app-wide key so only one replica lists the bucket at a time.
+const RECONCILE_LOCK_KEY = 7_410_001;
+const UPSERT_BATCH_SIZE = 500;
+
+export const getVideoSortBy = (): VideoSortBy => {
+	const raw = (env.VIDEO_SORT_BY ?? '').trim().toLowerCase();
+	if (!raw) return 'id';
+	if (raw === 'id' || raw === 'created_at') return raw;
+	console.warn(`[VIDEOS] Invalid VIDEO_SORT_BY="${env.VIDEO_SORT_BY}", defaulting to "id"`);
+	return 'id';
+};
+
+export const encodeCursor = (cursor: VideosCursor) =>
+	Buffer.from(JSON.stringify(cursor), 'utf8').toString('base64url');
+
+export const decodeCursor = (raw: string): VideosCursor | null => {
+	try {
+		const decoded = JSON.parse(
+			Buffer.from(raw, 'base64url').toString('utf8')
+		) as Partial<VideosCursor>;
+		if (decoded.o !== 'id' && decoded.o !== 'created_at') return null;
+		if (typeof decoded.s !== 'string' || !decoded.s) return null;
+		if (typeof decoded.t !== 'number' || !Number.isFinite(decoded.t)) return null;
+		return { o: decoded.o, s: decoded.s, t: decoded.t };
+	} catch {
+		return null;
+	}
+};
+
+// `slug_num` is -1 for non-numeric slugs, so numeric ids sort first (highest id first) and the
+// remaining slugs fall back to descending slug order, matching the old in-memory comparator.
+const ORDER_BY: Record<VideoSortBy, string> = {
+	id: 'slug_num desc, slug desc',
+	// LastModified is the closest thing to a creation date the bucket exposes. Most recent first.
+	created_at: 'last_modified desc, slug asc'
+};
+
+// Rows strictly after the cursor anchor in ORDER_BY order. Works even if the anchor row has
+// since been deleted, because it compares sort keys rather than looking the anchor up.
+const afterCursor = (cursor: VideosCursor, params: unknown[]) => {
+	params.push(cursor.s);
+	const slug = `$${params.length}::text`;
+	if (cursor.o === 'id') {
+		// Mirror the generated `slug_num` column for the anchor slug.
+		params.push(/^\d+$/.test(cursor.s) ? cursor.s : '-1');
+		return `(slug_num, slug) < ($${params.length}::numeric, ${slug})`;
+	}
+	params.push(cursor.t);
+	const lastModified = `$${params.length}::bigint`;
+	return `(last_modified < ${lastModified} or (last_modified = ${lastModified} and slug > ${slug}))`;
+};
+
+const toVideoItem = (row: VideoRow): VideoItem => {
+	const videoUrl = toCdnUrl(toFullresKey(row.slug));
+	const posterUrl = row.poster_format ? toCdnUrl(toPosterKey(row.slug, row.poster_format)) : null;
+	return {
+		id: row.slug,
+		videoUrl,
+		hlsUrl: row.has_hls ? toCdnUrl(toHlsKey(row.slug)) : null,
+		// Fall back to the full-res file until the thumb re-encoder has caught up.
+		thumbUrl: row.has_thumb ? toCdnUrl(toThumbKey(row.slug)) : videoUrl,
+		posterUrl,
+		posterSrcset:
+			posterUrl && row.poster_format && row.poster_hidpi
+				? `${posterUrl} 1x, ${toCdnUrl(toPosterKey(row.slug, row.poster_format, true))} 2x`
+				: null,
+		captions: row.caption_langs.map((lang) => ({
+			lang,
+			label: captionLabel(lang),
+			url: toCaptionPath(row.slug, lang)
+		}))
+	};
+};
+
+// Turn free text into a prefix-matching tsquery ("cat vid" -> "cat:* & vid:*") so results
+// update while the viewer is still typing. Anything but letters/digits is a separator, which
+// also keeps tsquery operators out of user input.
+const toPrefixTsQuery = (q: string) => {
+	const terms = q
+		.toLowerCase()
+		.split(/[^\p{L}\p{N}]+/u)
+		.filter(Boolean)
+		.slice(0, 8);
+	return terms.length ? terms.map((t) => `${t}:*`).join(' & ') : null;
+};
+
+const SEARCH_DOCUMENT = `to_tsvector('simple', slug || ' ' || array_to_string(tags, ' '))`;
+
+const filterClauses = (filter: VideoFilter | undefined, params: unknown[]) => {
+	const clauses = ['deleted_at is null', 'removed_at is null'];
+	if (filter?.tags.length) {
+		params.push(filter.tags);
+		clauses.push(`tags ${filter.match === 'any' ? '&&' : '@>'} $${params.length}::text[]`);
+	}
+	const tsquery = filter?.q ? toPrefixTsQuery(filter.q) : null;
+	if (tsquery) {
+		params.push(tsquery);
+		clauses.push(`${SEARCH_DOCUMENT} @@ to_tsquery('simple', $${params.length})`);
+	}
+	return clauses;
+};
+
+const countCache = new Map<string, { fetchedAt: number; total: number }>();
+
+const catalogCacheRequests = counter({
+	name: 'catalog_cache_requests_total',
+	help: 'Video catalog cache lookups by outcome',
+	labelNames: ['cache', 'result'] as const
+});
+
+export const invalidateCatalogCache = () => {
+	countCache.clear();
+};
+
+const countVideos = async (filter: VideoFilter | undefined): Promise<number> => {
+	const now = Date.now();
+	const key = JSON.stringify(filter ?? null);
+	const cached = countCache.get(key);
+	if (cached && now - cached.fetchedAt < COUNT_CACHE_TTL_MS) {
+		catalogCacheRequests.inc({ cache: 'count', result: 'hit' });
+		return cached.total;
+	}
+	catalogCacheRequests.inc({ cache: 'count', result: 'miss' });
+
+	const params: unknown[] = [];
+	const where = filterClauses(filter, params).join(' and ');
+	const { rows } = await getPostgresPool().query<{ total: string }>(
+		`select count(*) as total from videos where ${where}`,
+		params
+	);
+	const total = Number(rows[0]?.total ?? 0);
+	// Search boxes produce many one-off filters; keep the cache bounded.
+	if (countCache.size >= COUNT_CACHE_MAX) countCache.clear();
+	countCache.set(key, { fetchedAt: now, total });
+	return total;
+};
+
+export type ListVideosOptions = {
+	pageSize: number;
+	// Exactly one of these positions the page; a cursor wins when both are set.
+	cursor?: VideosCursor | null;
+	page?: number;
+	filter?: VideoFilter;
+};
+
+export type ListVideosResult = {
+	items: VideoItem[];
+	hasMore: boolean;
+	nextCursor: VideosCursor | null;
+	total: number;
+};
+
+export async function listVideos({
+	pageSize,
+	cursor,
+	page,
+	filter
+}: ListVideosOptions): Promise<ListVideosResult> {
+	const sortBy = cursor?.o ?? getVideoSortBy();
+	const params: unknown[] = [];
+	const clauses = filterClauses(filter, params);
+	let offset = '';
+	if (cursor) {
+		clauses.push(afterCursor(cursor, params));
+	} else if (page && page > 1) {
+		params.push((page - 1) * pageSize);
+		offset = ` offset $${params.length}`;
+	}
+	// Fetch one extra row to learn whether another page exists without a second query.
+	params.push(pageSize + 1);
+
+	let rows: VideoRow[];
+	let total: number;
+	try {
+		const pool = getPostgresPool();
+		[{ rows }, total] = await Promise.all([
+			pool.query<VideoRow>(
+				`select ${VIDEO_ROW_COLUMNS} from videos
+				where ${clauses.join(' and ')}
+				order by ${ORDER_BY[sortBy]} limit $${params.length}${offset}`,
+				params
+			),
+			countVideos(filter)
+		]);
+	} catch (e) {
+		// Tags and search only exist in the database; the plain feed can come from the bucket.
+		if (filter) throw e;
+		console.error('[CATALOG] catalog query failed; serving the feed from the bucket', e);
+		return listBucketFallback({ pageSize, cursor, page });
+	}
+
+	const hasMore = rows.length > pageSize;
+	const pageRows = rows.slice(0, pageSize);
+	const last = pageRows.at(-1);
+	return {
+		items: pageRows.map(toVideoItem),
+		hasMore,
+		nextCursor: hasMore && last ? { o: sortBy, s: last.slug, t: Number(last.last_modified) } : null,
+		total
+	};
+}
+
+// A single feed video (not deleted or removed) with its mirrored tags, or null.
+export async function getVideo(slug: string): Promise<(VideoItem & { tags: string[] }) | null> {
+	const { rows } = await getPostgresPool().query<VideoRow & { tags: string[] }>(
+		`select ${VIDEO_ROW_COLUMNS}, tags from videos
+		where slug = $1 and deleted_at is null and removed_at is null`,
+		[slug]
+	);
+	const row = rows[0];
+	return row ? { ...toVideoItem(row), tags: row.tags } : null;
+}
+
+// Tags are owned by the upstream video service; we mirror whatever it last told us so the feed
+// can filter on them in SQL. The mirror is stored canonicalized (see $lib/server/tags) so legacy
+// spellings upstream still group and filter together. Best-effort: callers shouldn't fail a
+// request over this.
+export async function recordVideoTags(slug: string, tags: string[]) {
+	await getPostgresPool().query(
+		'update videos set tags = $2::text[], tags_synced_at = $3 where slug = $1',
+		[slug, canonicalizeTags(tags), Date.now()]
+	);
+	invalidateCatalogCache();
+}
+
+// Note a caption language the moment its file is written, rather than at the next reconcile.
+// Returns the video's tracks, or null if there is no such (live) video.
+export async function recordCaptionLang(
+	slug: string,
+	lang: string
+): Promise<VideoItem['captions'] | null> {
+	const { rows } = await getPostgresPool().query<VideoRow>(
+		`update videos set
+			caption_langs = array(
+				select distinct l from unnest(array_append(caption_langs, $2::text)) l order by l
+			),
+			updated_at = $3
+		where slug = $1 and deleted_at is null and purged_at is null
+		returning ${VIDEO_ROW_COLUMNS}`,
+		[slug, lang, Date.now()]
+	);
+	if (!rows[0]) return null;
+	invalidateCatalogCache();
+	return toVideoItem(rows[0]).captions;
+}
+
+// Add a freshly uploaded `_full/` object to the feed now rather than at the next reconcile.
+// The thumb comes later (see toVideoItem's fallback); reconcile picks it up when it lands.
+export async function registerUploadedVideo(
+	slug: string,
+	sizeBytes: number,
+	lastModifiedMs: number
+): Promise<VideoItem> {
+	const now = Date.now();
+	await getPostgresPool().query(
+		`insert into videos (slug, size_bytes, last_modified, has_thumb, first_seen_at, updated_at)
+		values ($1, $2, $3, false, $4, $4)
+		on conflict (slug) do update set
+			size_bytes = excluded.size_bytes,
+			last_modified = excluded.last_modified,
+			deleted_at = null,
+			updated_at = excluded.updated_at`,
+		[slug, sizeBytes, lastModifiedMs, now]
+	);
+	invalidateCatalogCache();
+	return toVideoItem({
+		slug,
+		last_modified: String(lastModifiedMs),
+		has_thumb: false,
+		has_hls: false,
+		caption_langs: [],
+		poster_format: null,
+		poster_hidpi: false
+	});
+}
+
+type BucketVideo = {
+	slug: string;
+	sizeBytes: number;
+	lastModifiedMs: number;
+	hasThumb: boolean;
+	hasHls: boolean;
+	captionLangs: string[];
+	posterFormat: PosterFormat | null;
+	posterHidpi: boolean;
+};
+
+const slugFromKey = (key: string, prefix: string, suffix: string) => {
+	if (!key.startsWith(prefix)) return null;
+	if (!key.toLowerCase().endsWith(suffix)) return null;
+	const slug = key.slice(prefix.length, -suffix.length);
+	return slug && !slug.includes('/') ? slug : null;
+};
+
+const listBucketVideos = async (): Promise<BucketVideo[]> => {
+	const [fullres, thumbs, hls, captions, posters] = await Promise.all([
+		listAllObjects(FULLRES_PREFIX),
+		listAllObjects(THUMBS_PREFIX),
+		listAllObjects(HLS_PREFIX),
+		listAllObjects(CAPTIONS_PREFIX),
+		listAllObjects(POSTERS_PREFIX)
+	]);
+
+	// A rendition counts once its master playlist is there; segments alone (an encode still
+	// uploading, or one that died halfway) aren't playable.
+	const hlsSlugs = new Set<string>();
+	for (const obj of hls) {
+		const slug = obj.Key ? slugFromKey(obj.Key, HLS_PREFIX, `/${HLS_MASTER_PLAYLIST}`) : null;
+		// slugFromKey ignores case, but the player requests exactly toHlsKey.
+		if (slug && obj.Key === toHlsKey(slug)) hlsSlugs.add(slug);
+	}
+
+	const thumbSlugs = new Set<string>();
+	for (const obj of thumbs) {
+		const slug = obj.Key ? slugFromKey(obj.Key, THUMBS_PREFIX, THUMB_SUFFIX) : null;
+		if (slug) thumbSlugs.add(slug);
+	}
+
+	// Keys whose language isn't already in normal form are ignored; uploads never write them.
+	const captionLangs = new Map<string, string[]>();
+	for (const obj of captions) {
+		const parsed = obj.Key ? parseCaptionKey(obj.Key) : null;
+		if (!parsed || normalizeCaptionLang(parsed.lang) !== parsed.lang) continue;
+		const langs = captionLangs.get(parsed.slug) ?? [];
+		langs.push(parsed.lang);
+		captionLangs.set(parsed.slug, langs);
+	}
+
+	// slug -> the poster files it has, as "webp", "webp@2x", "jpg", ...
+	const posterFiles = new Map<string, Set<string>>();
+	for (const obj of posters) {
+		const key = obj.Key ?? '';
+		const format = POSTER_FORMATS.find((f) => key.endsWith(`.${f}`));
+		let slug = format ? slugFromKey(key, POSTERS_PREFIX, `.${format}`) : null;
+		if (!format || !slug) continue;
+		const hidpi = slug.endsWith(POSTER_HIDPI_SUFFIX);
+		if (hidpi) slug = slug.slice(0, -POSTER_HIDPI_SUFFIX.length);
+		const files = posterFiles.get(slug) ?? new Set<string>();
+		files.add(hidpi ? `${format}${POSTER_HIDPI_SUFFIX}` : format);
+		posterFiles.set(slug, files);
+	}
+
+	const videos: BucketVideo[] = [];
+	for (const obj of fullres) {
+		const slug = obj.Key ? slugFromKey(obj.Key, FULLRES_PREFIX, FULLRES_SUFFIX) : null;
+		if (!slug) continue;
+		// A 2x file on its own isn't a poster; it only ever accompanies the 1x one.
+		const files = posterFiles.get(slug);
+		const posterFormat = POSTER_FORMATS.find((format) => files?.has(format)) ?? null;
+		videos.push({
+			slug,
+			sizeBytes: obj.Size ?? 0,
+			lastModifiedMs: obj.LastModified ? obj.LastModified.getTime() : 0,
+			hasThumb: thumbSlugs.has(slug),
+			hasHls: hlsSlugs.has(slug),
+			captionLangs: (captionLangs.get(slug) ?? []).sort(),
+			posterFormat,
+			posterHidpi: posterFormat !== null && !!files?.has(`${posterFormat}${POSTER_HIDPI_SUFFIX}`)
+		});
+	}
+	return videos;
+};
+
+// While Postgres is unreachable the unfiltered feed is served from a cached bucket listing,
+// sorted and paged like ORDER_BY. Removals are only recorded in the database, so the removed
+// slugs are loaded from it on every reconcile run to keep them out; until they have been loaded
+// once (e.g. the process started while Postgres was down) the fallback feed is empty rather
+// than showing videos a moderator took down.
+const BUCKET_FALLBACK_TTL_MS = 60_000 * 3;
+let bucketFallback: { fetchedAt: number; videos: Promise<BucketVideo[]> } | undefined;
+let removedSlugs: Set<string> | null = null;
+
+type FeedPosition = Pick<BucketVideo, 'slug' | 'lastModifiedMs'>;
+
+const compareFallbackVideos = (sortBy: VideoSortBy) => (a: FeedPosition, b: FeedPosition) => {
+	const bySlug = (x: string, y: string) => (x < y ? -1 : x > y ? 1 : 0);
+	if (sortBy === 'created_at') {
+		return b.lastModifiedMs - a.lastModifiedMs || bySlug(a.slug, b.slug);
+	}
+	const aNum = /^\d+$/.test(a.slug) ? BigInt(a.slug) : -1n;
+	const bNum = /^\d+$/.test(b.slug) ? BigInt(b.slug) : -1n;
+	return (aNum === bNum ? 0 : aNum > bNum ? -1 : 1) || bySlug(b.slug, a.slug);
+};
+
+const getFallbackVideos = (): Promise<BucketVideo[]> => {
+	const now = Date.now();
+	if (bucketFallback && now - bucketFallback.fetchedAt < BUCKET_FALLBACK_TTL_MS) {
+		catalogCacheRequests.inc({ cache: 'bucket_fallback', result: 'hit' });
+		return bucketFallback.videos;
+	}
+	catalogCacheRequests.inc({ cache: 'bucket_fallback', result: 'miss' });
+	const videos = listBucketVideos();
+	bucketFallback = { fetchedAt: now, videos };
+	// Don't serve a failed listing for the whole TTL.
+	videos.catch(() => {
+		if (bucketFallback?.videos === videos) bucketFallback = undefined;
+	});
+	return videos;
+};
+
+async function listBucketFallback({
+	pageSize,
+	cursor,
+	page
+}: Omit<ListVideosOptions, 'filter'>): Promise<ListVideosResult> {
+	const removed = removedSlugs;
+	if (!removed) return { items: [], hasMore: false, nextCursor: null, total: 0 };
+	const sortBy = cursor?.o ?? getVideoSortBy();
+	const compare = compareFallbackVideos(sortBy);
+	const videos = (await getFallbackVideos())
+		.filter((video) => !removed.has(video.slug))
+		.sort(compare);
+
+	let start = 0;
+	if (cursor) {
+		const anchor = { slug: cursor.s, lastModifiedMs: cursor.t };
+		start = videos.findIndex((video) => compare(video, anchor) > 0);
+		if (start < 0) start = videos.length;
+	} else if (page && page > 1) {
+		start = (page - 1) * pageSize;
+	}
+	const pageVideos = videos.slice(start, start + pageSize);
+	const hasMore = start + pageSize < videos.length;
+	const last = pageVideos.at(-1);
+	return {
+		items: pageVideos.map((video) =>
+			toVideoItem({
+				slug: video.slug,
+				last_modified: String(video.lastModifiedMs),
+				has_thumb: video.hasThumb,
+				has_hls: video.hasHls,
+				caption_langs: video.captionLangs,
+				poster_format: video.posterFormat,
+				poster_hidpi: video.posterHidpi
+			})
+		),
+		hasMore,
+		nextCursor: hasMore && last ? { o: sortBy, s: last.slug, t: last.lastModifiedMs } : null,
+		total: videos.length
+	};
+}
+
+export type ReconcileResult = { skipped: true } | { skipped: false; seen: number; removed: number };
+
+// Bring the `videos` table in line with the bucket: upsert every `_full/` object and soft-delete
+// rows whose object has disappeared. Guarded by an advisory lock so replicas don't duplicate work.
+export async function reconcileCatalog(): Promise<ReconcileResult> {
+	// Reconnects if Postgres was down at startup.
+	const pool = await initPostgres();
+	const client = await pool.connect();
+	try {
+		// Every replica needs these for its bucket fallback, not just the one holding the lock.
+		const removedRows = await client.query<{ slug: string }>(
+			'select slug from videos where removed_at is not null and purged_at is null'
+		);
+		removedSlugs = new Set(removedRows.rows.map((row) => row.slug));
+
+		const { rows } = await client.query<{ locked: boolean }>(
+			'select pg_try_advisory_lock($1) as locked',
+			[RECONCILE_LOCK_KEY]
+		);
+		if (!rows[0]?.locked) return { skipped: true };
+
+		try {
+			const listedAt = Date.now();
+			const videos = await listBucketVideos();
+			// An empty listing is far more likely a misconfigured bucket/prefix than a real wipe.
+			if (videos.length === 0) {
+				console.warn('[CATALOG] bucket listing returned no videos; skipping reconcile');
+				return { skipped: true };
+			}
+
+			const now = Date.now();
+			await client.query('begin');
+			for (let i = 0; i < videos.length; i += UPSERT_BATCH_SIZE) {
+				const batch = videos.slice(i, i + UPSERT_BATCH_SIZE);
+				// Caption languages go in comma-joined: unnest can't take ragged arrays of arrays.
+				// A row written since the listing started (a caption upload) keeps its languages:
+				// the listing may predate the new file, and the next pass will see it anyway.
+				await client.query(
+					`insert into videos (slug, size_bytes, last_modified, has_thumb, has_hls,
+						caption_langs, poster_format, poster_hidpi, first_seen_at, updated_at)
+					select slug, size_bytes, last_modified, has_thumb, has_hls,
+						string_to_array(caption_langs, ','), poster_format, poster_hidpi, $9, $9
+					from unnest($1::text[], $2::bigint[], $3::bigint[], $4::boolean[], $5::boolean[],
+						$6::text[], $7::text[], $8::boolean[])
+						as t(slug, size_bytes, last_modified, has_thumb, has_hls, caption_langs,
+							poster_format, poster_hidpi)
+					on conflict (slug) do update set
+						size_bytes = excluded.size_bytes,
+						last_modified = excluded.last_modified,
+						has_thumb = excluded.has_thumb,
+						has_hls = excluded.has_hls,
+						caption_langs = case when videos.updated_at >= $10 then videos.caption_langs
+							else excluded.caption_langs end,
+						poster_format = excluded.poster_format,
+						poster_hidpi = excluded.poster_hidpi,
+						deleted_at = null,
+						updated_at = excluded.updated_at
+					where videos.deleted_at is not null
+						or (videos.size_bytes, videos.last_modified, videos.has_thumb, videos.has_hls,
+							videos.caption_langs, videos.poster_format, videos.poster_hidpi)
+							is distinct from
+							(excluded.size_bytes, excluded.last_modified, excluded.has_thumb,
+							excluded.has_hls, excluded.caption_langs, excluded.poster_format,
+							excluded.poster_hidpi)`,
+					[
+						batch.map((v) => v.slug),
+						batch.map((v) => v.sizeBytes),
+						batch.map((v) => v.lastModifiedMs),
+						batch.map((v) => v.hasThumb),
+						batch.map((v) => v.hasHls),
+						batch.map((v) => v.captionLangs.join(',')),
+						batch.map((v) => v.posterFormat),
+						batch.map((v) => v.posterHidpi),
+						now,
+						listedAt
+					]
+				);
+			}
+			// Rows written since the listing started (a just-completed upload) may simply be
+			// newer than it; the next pass decides about them.
+			const removed = await client.query(
+				`update videos set deleted_at = $2, updated_at = $2
+				where deleted_at is null and not (slug = any($1::text[])) and updated_at < $3`,
+				[videos.map((v) => v.slug), now, listedAt]
+			);
+			await client.query('commit');
+			invalidateCatalogCache();
+			return { skipped: false, seen: videos.length, removed: removed.rowCount ?? 0 };
+		} catch (e) {
+			await client.query('rollback').catch(() => {});
+			throw e;
+		} finally {
+			await client.query('select pg_advisory_unlock($1)', [RECONCILE_LOCK_KEY]);
+		}
+	} finally {
+		client.release();
+	}
+}
+
+const getReconcileIntervalMs = () => {
+	const parsed = Number.parseInt(env.VIDEO_RECONCILE_INTERVAL_MS ?? '', 10);
+	return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_RECONCILE_INTERVAL_MS;
+};
+
+let reconcileTimer: ReturnType<typeof setInterval> | undefined;
+let reconcileRunning = false;
+
+const runReconcile = async () => {
+	if (reconcileRunning) return;
+	reconcileRunning = true;
+	try {
+		const result = await reconcileCatalog();
+		if (!result.skipped) {
+			console.log('[CATALOG] reconciled', { seen: result.seen, removed: result.removed });
+		}
+	} catch (e) {
+		console.error('[CATALOG] reconcile failed', e);
+	} finally {
+		reconcileRunning = false;
+	}
+};
+
+// Reconcile once now and then on an interval. Safe to call more than once.
+export const startCatalogReconciler = () => {
+	if (reconcileTimer) return;
+	void runReconcile();
+	reconcileTimer = setInterval(() => void runReconcile(), getReconcileIntervalMs());
+	reconcileTimer.unref?.();
+};
@@ -0,0 +1,291 @@
+import { env } from '$env/dynamic/private';
+import { randomUUID } from 'node:crypto';
+import { DeleteObjectCommand } from '@aws-sdk/client-s3';
+import { ApiError } from '$lib/api/error';
+import type { VideoDeletion } from '$lib/api/videos';
+import { counter } from '$lib/server/metrics';
+import { getPostgresPool, initPostgres } from '$lib/server/postgres';
+import {
+	CAPTIONS_PREFIX,
+	HLS_PREFIX,
+	POSTER_FORMATS,
+	getSpacesClient,
+	getSpacesConfig,
+	listAllObjects,
+	parseCaptionKey,
+	toFullresKey,
+	toPosterKey,
+	toThumbKey
+} from '$lib/server/spaces';
+import { invalidateCatalogCache } from '$lib/server/video-catalog';
+import {
+	getServiceAccountFetch,
+	toVideoServiceUrl,
+	type UpstreamFetch
+} from '$lib/server/video-service';
+
+// Deleting a video is two steps. Removing it hides it from the feed straight away and can be
+// undone; once the restore window has passed, the purger deletes the upstream record and the
+// `_full/`, `_thumbs/`, `_posters/`, `_hls/` and `_captions/` objects. Every step is written to
+// video_audit_log.
+
+const DEFAULT_RESTORE_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+const PURGE_INTERVAL_MS = 10 * 60 * 1000;
+const PURGE_BATCH_SIZE = 50;
+// Arbitrary app-wide key so only one replica purges at a time (see RECONCILE_LOCK_KEY).
+const PURGE_LOCK_KEY = 7_410_002;
+
+export type VideoAuditAction = 'remove' | 'restore' | 'purge';
+
+type DeletionRow = {
+	slug: string;
+	removed_at: string | null;
+	purged_at: string | null;
+};
+
+const videoDeletions = counter({
+	name: 'video_deletions_total',
+	help: 'Video removals, restores and purges, by action and result (ok, failed)',
+	labelNames: ['action', 'result'] as const
+});
+
+export const getRestoreWindowMs = () => {
+	const parsed = Number.parseInt(env.VIDEO_RESTORE_WINDOW_MS ?? '', 10);
+	return Number.isFinite(parsed) && parsed >= 0 ? parsed : DEFAULT_RESTORE_WINDOW_MS;
+};
+
+const toDeletion = (row: DeletionRow): VideoDeletion => {
+	const removedAt = row.removed_at === null ? null : Number(row.removed_at);
+	return {
+		id: row.slug,
+		removedAt,
+		purgeAfter: removedAt === null ? null : removedAt + getRestoreWindowMs(),
+		purgedAt: row.purged_at === null ? null : Number(row.purged_at)
+	};
+};
+
+async function audit(
+	slug: string,
+	action: VideoAuditAction,
+	actor: string,
+	detail: Record<string, unknown> | null = null
+) {
+	await getPostgresPool().query(
+		`insert into video_audit_log (id, slug, action, actor, at, detail)
+		values ($1, $2, $3, $4, $5, $6)`,
+		[randomUUID(), slug, action, actor, Date.now(), detail]
+	);
+}
+
+async function getDeletion(slug: string): Promise<DeletionRow | null> {
+	const { rows } = await getPostgresPool().query<DeletionRow>(
+		'select slug, removed_at, purged_at from videos where slug = $1',
+		[slug]
+	);
+	return rows[0] ?? null;
+}
+
+// Hide a video from the feed. Removing an already removed video is a no-op that reports the
+// existing removal.
+export async function removeVideo(slug: string, actor: string): Promise<VideoDeletion> {
+	const { rows } = await getPostgresPool().query<DeletionRow>(
+		`update videos set removed_at = $2, removed_by = $3
+		where slug = $1 and removed_at is null and purged_at is null
+		returning slug, removed_at, purged_at`,
+		[slug, Date.now(), actor]
+	);
+	if (!rows[0]) {
+		const existing = await getDeletion(slug);
+		if (!existing) throw new ApiError('Unknown video', 404);
+		return toDeletion(existing);
+	}
+
+	invalidateCatalogCache();
+	videoDeletions.inc({ action: 'remove', result: 'ok' });
+	await audit(slug, 'remove', actor);
+	return toDeletion(rows[0]);
+}
+
+// Put a removed video back in the feed, as long as it hasn't been purged.
+export async function restoreVideo(slug: string, actor: string): Promise<VideoDeletion> {
+	const { rows } = await getPostgresPool().query<DeletionRow>(
+		`update videos set removed_at = null, removed_by = null
+		where slug = $1 and removed_at is not null and purged_at is null
+		returning slug, removed_at, purged_at`,
+		[slug]
+	);
+	if (!rows[0]) {
+		const existing = await getDeletion(slug);
+		if (!existing) throw new ApiError('Unknown video', 404);
+		if (existing.purged_at !== null) throw new ApiError('Video has already been purged', 410);
+		return toDeletion(existing);
+	}
+
+	invalidateCatalogCache();
+	videoDeletions.inc({ action: 'restore', result: 'ok' });
+	await audit(slug, 'restore', actor);
+	return toDeletion(rows[0]);
+}
+
+// Delete the upstream record and the video's bucket objects. The row is claimed first (marked
+// purged, which also closes the restore window) so a restore can't land while files are being
+// deleted; `dueBefore` limits the claim to videos removed before then, for the background
+// purger, while an explicit purge claims any unpurged video. If a step fails the claim is
+// released, and since every step tolerates "already gone" the purge can simply be run again.
+export async function purgeVideo(
+	slug: string,
+	actor: string,
+	upstreamFetch: UpstreamFetch | null,
+	dueBefore: number | null = null
+): Promise<VideoDeletion> {
+	const claimedAt = Date.now();
+	const claimed = await getPostgresPool().query<DeletionRow>(
+		`update videos set
+			removed_at = coalesce(removed_at, $2),
+			removed_by = coalesce(removed_by, $3),
+			purged_at = $2
+		where slug = $1 and purged_at is null
+			and ($4::bigint is null or (removed_at is not null and removed_at <= $4))
+		returning slug, removed_at, purged_at`,
+		[slug, claimedAt, actor, dueBefore]
+	);
+	if (!claimed.rows[0]) {
+		// Already purged, restored since it was picked, or never there.
+		const existing = await getDeletion(slug);
+		if (!existing) throw new ApiError('Unknown video', 404);
+		return toDeletion(existing);
+	}
+	invalidateCatalogCache();
+
+	try {
+		let upstream: number | 'skipped' = 'skipped';
+		if (upstreamFetch) {
+			const res = await upstreamFetch(toVideoServiceUrl(slug), { method: 'DELETE' });
+			if (res.status > 299 && res.status !== 404) {
+				const body = await res.text().catch(() => '');
+				throw new ApiError(`Video service delete failed (${res.status})`, 502, body);
+			}
+			upstream = res.status;
+		}
+
+		const { bucket } = getSpacesConfig();
+		const s3 = getSpacesClient();
+		// S3 deletes succeed for missing keys, so videos without a thumb need no special case.
+		const [hls, captions] = await Promise.all([
+			listAllObjects(`${HLS_PREFIX}${slug}/`),
+			listAllObjects(`${CAPTIONS_PREFIX}${slug}.`)
+		]);
+		const extraKeys = [
+			...POSTER_FORMATS.flatMap((format) => [
+				toPosterKey(slug, format),
+				toPosterKey(slug, format, true)
+			]),
+			...hls.flatMap((obj) => (obj.Key ? [obj.Key] : [])),
+			// The prefix also matches slugs that merely start with `<slug>.`.
+			...captions.flatMap((obj) =>
+				obj.Key && parseCaptionKey(obj.Key)?.slug === slug ? [obj.Key] : []
+			)
+		];
+		await Promise.all(
+			[toFullresKey(slug), toThumbKey(slug), ...extraKeys].map((key) =>
+				s3.send(new DeleteObjectCommand({ Bucket: bucket, Key: key }))
+			)
+		);
+
+		const { rows } = await getPostgresPool().query<DeletionRow>(
+			`update videos set deleted_at = coalesce(deleted_at, $2), updated_at = $2
+			where slug = $1
+			returning slug, removed_at, purged_at`,
+			[slug, Date.now()]
+		);
+		invalidateCatalogCache();
+		videoDeletions.inc({ action: 'purge', result: 'ok' });
+		await audit(slug, 'purge', actor, { upstream });
+		return toDeletion(rows[0]!);
+	} catch (e) {
+		videoDeletions.inc({ action: 'purge', result: 'failed' });
+		await getPostgresPool()
+			.query('update videos set purged_at = null where slug = $1 and purged_at = $2', [
+				slug,
+				claimedAt
+			])
+			.catch((releaseError) => {
+				console.error(`[PURGE] failed to release purge claim on ${slug}`, releaseError);
+			});
+		throw e;
+	}
+}
+
+export type PurgeResult = { skipped: true } | { skipped: false; purged: number; failed: number };
+
+// Purge videos whose restore window has passed, a batch at a time.
+export async function purgeExpiredVideos(): Promise<PurgeResult> {
+	const pool = await initPostgres();
+	const client = await pool.connect();
+	try {
+		const { rows } = await client.query<{ locked: boolean }>(
+			'select pg_try_advisory_lock($1) as locked',
+			[PURGE_LOCK_KEY]
+		);
+		if (!rows[0]?.locked) return { skipped: true };
+
+		try {
+			const dueBefore = Date.now() - getRestoreWindowMs();
+			const due = await client.query<{ slug: string }>(
+				`select slug from videos
+				where removed_at is not null and purged_at is null and removed_at <= $1
+				order by removed_at limit $2`,
+				[dueBefore, PURGE_BATCH_SIZE]
+			);
+			// Without a service account there is nobody to delete the upstream record as; the
+			// objects are purged regardless and the audit entry records the upstream step as skipped.
+			const upstreamFetch = getServiceAccountFetch();
+			if (due.rows.length > 0 && !upstreamFetch) {
+				console.warn('[PURGE] no service account; upstream video records will be left behind');
+			}
+
+			let purged = 0;
+			let failed = 0;
+			for (const { slug } of due.rows) {
+				try {
+					// purgeVideo re-checks the cutoff when it claims the row, so a video restored
+					// since this select is left alone.
+					const deletion = await purgeVideo(slug, 'system', upstreamFetch, dueBefore);
+					if (deletion.purgedAt !== null) purged += 1;
+				} catch (e) {
+					failed += 1;
+					console.error(`[PURGE] failed to purge video ${slug}; will retry`, e);
+				}
+			}
+			return { skipped: false, purged, failed };
+		} finally {
+			await client.query('select pg_advisory_unlock($1)', [PURGE_LOCK_KEY]);
+		}
+	} finally {
+		client.release();
+	}
+}
+
+let purgeTimer: ReturnType<typeof setInterval> | undefined;
+let purgeRunning = false;
+
+const runPurge = async () => {
+	if (purgeRunning) return;
+	purgeRunning = true;
+	try {
+		const result = await purgeExpiredVideos();
+		if (!result.skipped && result.purged + result.failed > 0) {
+			console.log('[PURGE] purged removed videos', result);
+		}
+	} catch (e) {
+		console.error('[PURGE] run failed', e);
+	} finally {
+		purgeRunning = false;
+	}
+};
+
+export const startVideoPurger = () => {
+	if (purgeTimer) return;
+	purgeTimer = setInterval(() => void runPurge(), PURGE_INTERVAL_MS);
+	purgeTimer.unref?.();
+};
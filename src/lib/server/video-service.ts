@@ -0,0 +1,71 @@
+import { dev } from '$app/environment';
+import { env } from '$env/dynamic/private';
+import { ApiError } from '$lib/api/error';
+import { getServiceAccessToken, isServiceAccountEnabled } from '$lib/server/oidc';
+
+// The upstream core-video service, which owns per-video records (tags and the like).
+
+// Calls the video service with whatever credentials the caller has: the request's own (see
+// fetchWithAuth) or the service account for background jobs.
+export type UpstreamFetch = (input: string, init: RequestInit) => Promise<Response>;
+
+export type UpstreamVideo = {
+	id: string;
+	tags: string[];
+};
+
+export function getVideoServiceBaseUrl(): string {
+	return (
+		env.VIDEO_BASE_URL ??
+		(dev ? 'https://api.slopindustries.com' : 'http://core-video.core.svc.cluster.local')
+	);
+}
+
+export function toVideoServiceUrl(videoId: string): string {
+	return `${getVideoServiceBaseUrl()}/video/${encodeURIComponent(videoId)}`;
+}
+
+// Background jobs call as the service account; null when none is configured.
+export const getServiceAccountFetch = (): UpstreamFetch | null =>
+	isServiceAccountEnabled()
+		? async (input, init) =>
+				fetch(input, {
+					...init,
+					headers: {
+						...(init.headers ?? {}),
+						Authorization: `Bearer ${await getServiceAccessToken()}`
+					}
+				})
+		: null;
+
+const upstreamError = async (action: string, res: Response) =>
+	new ApiError(
+		`Video service ${action} failed (${res.status})`,
+		res.status,
+		await res.text().catch(() => '')
+	);
+
+export async function getUpstreamVideo(
+	upstreamFetch: UpstreamFetch,
+	videoId: string
+): Promise<UpstreamVideo> {
+	const res = await upstreamFetch(toVideoServiceUrl(videoId), { method: 'GET' });
+	if (res.status > 299) throw await upstreamError('read', res);
+	// Callers write these tags back (to the mirror, or upstream after an edit), so a body we
+	// can't read must fail rather than pass for a video with no tags.
+	const body = (await res.json().catch(() => null)) as { tags?: unknown } | null;
+	const tags = body?.tags;
+	if (!Array.isArray(tags) || !tags.every((t): t is string => typeof t === 'string')) {
+		throw new ApiError('Video service returned an unreadable video', 502);
+	}
+	return { id: videoId, tags };
+}
+
+export async function putUpstreamVideo(upstreamFetch: UpstreamFetch, video: UpstreamVideo) {
+	const res = await upstreamFetch(toVideoServiceUrl(video.id), {
+		method: 'PUT',
+		headers: { 'content-type': 'application/json' },
+		body: JSON.stringify(video)
+	});
+	if (res.status > 299) throw await upstreamError('update', res);
+}
@@ -0,0 +1,114 @@
+import { env } from '$env/dynamic/private';
+import { ApiError } from '$lib/api/error';
+import { counter } from '$lib/server/metrics';
+import { initPostgres } from '$lib/server/postgres';
+import { recordVideoTags } from '$lib/server/video-catalog';
+import { getServiceAccountFetch, getUpstreamVideo } from '$lib/server/video-service';
+
+// The tag mirror (videos.tags) is refreshed whenever someone reads or edits a video, but a
+// video nobody opens would never get one. This job backfills it from the video service as the
+// service account: rows never synced first, then rows older than VIDEO_TAG_SYNC_MAX_AGE_MS.
+
+const DEFAULT_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+const SYNC_INTERVAL_MS = 2 * 60 * 1000;
+const SYNC_BATCH_SIZE = 100;
+// Arbitrary app-wide key so only one replica syncs at a time (see RECONCILE_LOCK_KEY).
+const SYNC_LOCK_KEY = 7_410_003;
+
+const tagSyncs = counter({
+	name: 'video_tag_syncs_total',
+	help: 'Tag mirror refreshes from the video service, by result (ok, missing, failed)',
+	labelNames: ['result'] as const
+});
+
+const getMaxAgeMs = () => {
+	const parsed = Number.parseInt(env.VIDEO_TAG_SYNC_MAX_AGE_MS ?? '', 10);
+	return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_MAX_AGE_MS;
+};
+
+export type TagSyncResult = { skipped: true } | { skipped: false; synced: number; failed: number };
+
+export async function syncStaleVideoTags(): Promise<TagSyncResult> {
+	const upstreamFetch = getServiceAccountFetch();
+	if (!upstreamFetch) return { skipped: true };
+
+	const pool = await initPostgres();
+	const client = await pool.connect();
+	try {
+		const { rows } = await client.query<{ locked: boolean }>(
+			'select pg_try_advisory_lock($1) as locked',
+			[SYNC_LOCK_KEY]
+		);
+		if (!rows[0]?.locked) return { skipped: true };
+
+		try {
+			const due = await client.query<{ slug: string }>(
+				`select slug from videos
+				where deleted_at is null and purged_at is null
+					and (tags_synced_at is null or tags_synced_at < $1)
+				order by tags_synced_at nulls first, slug
+				limit $2`,
+				[Date.now() - getMaxAgeMs(), SYNC_BATCH_SIZE]
+			);
+
+			let synced = 0;
+			let failed = 0;
+			for (const { slug } of due.rows) {
+				try {
+					const { tags } = await getUpstreamVideo(upstreamFetch, slug);
+					await recordVideoTags(slug, tags);
+					tagSyncs.inc({ result: 'ok' });
+					synced += 1;
+				} catch (e) {
+					// No upstream record yet (e.g. a fresh upload): it has no tags to mirror.
+					if (e instanceof ApiError && e.status === 404) {
+						await recordVideoTags(slug, []);
+						tagSyncs.inc({ result: 'missing' });
+						synced += 1;
+						continue;
+					}
+					tagSyncs.inc({ result: 'failed' });
+					failed += 1;
+					console.error(`[TAG SYNC] failed to sync tags for video ${slug}; will retry`, e);
+				}
+			}
+			return { skipped: false, synced, failed };
+		} finally {
+			await client.query('select pg_advisory_unlock($1)', [SYNC_LOCK_KEY]);
+		}
+	} finally {
+		client.release();
+	}
+}
+
+let syncTimer: ReturnType<typeof setInterval> | undefined;
+let syncRunning = false;
+let warnedNoServiceAccount = false;
+
+const runSync = async () => {
+	if (syncRunning) return;
+	syncRunning = true;
+	try {
+		if (!getServiceAccountFetch()) {
+			if (!warnedNoServiceAccount) {
+				warnedNoServiceAccount = true;
+				console.warn('[TAG SYNC] no service account; tags are only mirrored as videos are opened');
+			}
+			return;
+		}
+		const result = await syncStaleVideoTags();
+		if (!result.skipped && result.synced + result.failed > 0) {
+			console.log('[TAG SYNC] refreshed video tags', result);
+		}
+	} catch (e) {
+		console.error('[TAG SYNC] run failed', e);
+	} finally {
+		syncRunning = false;
+	}
+};
+
+export const startVideoTagSync = () => {
+	if (syncTimer) return;
+	syncTimer = setInterval(() => void runSync(), SYNC_INTERVAL_MS);
+	syncTimer.unref?.();
+};
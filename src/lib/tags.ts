@@ -0,0 +1,30 @@
+// Tag normalization shared by the browser and the server. The server additionally applies
+// alias mapping (see $lib/server/tags) before anything is written upstream.
+
+const MAX_TAG_LENGTH = 64;
+
+// Case-fold and collapse whitespace so "Cat", " cat " and "CAT" are the same tag.
+export const normalizeTag = (value: string) =>
+	value.normalize('NFKC').trim().replace(/\s+/g, ' ').toLowerCase().slice(0, MAX_TAG_LENGTH);
+
+export const uniqTags = (tags: string[], normalize: (tag: string) => string = normalizeTag) => {
+	const seen = new Set<string>();
+	const out: string[] = [];
+	for (const t of tags) {
+		const n = normalize(t);
+		if (!n) continue;
+		if (seen.has(n)) continue;
+		seen.add(n);
+		out.push(n);
+	}
+	return out;
+};
+
+export type TagCount = {
+	tag: string;
+	count: number;
+};
+
+export type TagsResponse = {
+	tags: TagCount[];
+};
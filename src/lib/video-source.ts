@@ -0,0 +1,91 @@
+import type { VideoItem } from '$lib/api/videos';
+
+// Picks the best way to play a video in a <video> element: the HLS rendition natively (Safari,
+// iOS), the HLS rendition through hls.js where Media Source Extensions exist, or the MP4.
+// hls.js is only downloaded the first time an HLS video is opened on a browser that needs it.
+
+export type VideoSource = Pick<VideoItem, 'videoUrl' | 'hlsUrl'>;
+
+// Prefetching only needs the playlist and the first few seconds.
+const PREFETCH_BUFFER_SECONDS = 4;
+
+// How to undo whatever the current load set up: an hls.js instance or a fallback listener.
+const teardowns = new WeakMap<HTMLVideoElement, () => void>();
+// Bumped per element on every load and detach so a slow hls.js import can't attach a stale
+// source.
+const generations = new WeakMap<HTMLVideoElement, number>();
+
+let hlsModule: Promise<typeof import('hls.js') | null> | null = null;
+const importHls = () =>
+	(hlsModule ??= import('hls.js').catch(() => {
+		hlsModule = null;
+		return null;
+	}));
+
+const canPlayNativeHls = (el: HTMLVideoElement) =>
+	el.canPlayType('application/vnd.apple.mpegurl') !== '';
+
+const setProgressive = (el: HTMLVideoElement, url: string) => {
+	el.src = url;
+	el.load();
+};
+
+// A missing or broken rendition: carry on with the MP4 from the same position.
+const fallBackToMp4 = (el: HTMLVideoElement, source: VideoSource) => {
+	const resumeAt = el.currentTime;
+	const resume = !el.paused;
+	detachVideoSource(el);
+	setProgressive(el, source.videoUrl);
+	if (resumeAt > 0) el.currentTime = resumeAt;
+	if (resume) void el.play().catch(() => {});
+};
+
+// Tear down any hls.js instance driving `el`. Call before the element goes away.
+export const detachVideoSource = (el: HTMLVideoElement) => {
+	generations.set(el, (generations.get(el) ?? 0) + 1);
+	teardowns.get(el)?.();
+	teardowns.delete(el);
+};
+
+// Point `el` at `source` (or at nothing). Resolves once the element has its source, so the
+// caller can play() right after. Don't call el.load() afterwards: with hls.js the src is a
+// MediaSource that load() would throw away.
+export async function loadVideoSource(
+	el: HTMLVideoElement,
+	source: VideoSource | null,
+	opts: { prefetch?: boolean } = {}
+): Promise<void> {
+	detachVideoSource(el);
+	const generation = generations.get(el);
+
+	if (!source) {
+		el.removeAttribute('src');
+		el.load();
+		return;
+	}
+	if (!source.hlsUrl) return setProgressive(el, source.videoUrl);
+	if (canPlayNativeHls(el)) {
+		// Native players only report a bad rendition as an error on the element.
+		const onError = () => fallBackToMp4(el, source);
+		el.addEventListener('error', onError, { once: true });
+		teardowns.set(el, () => el.removeEventListener('error', onError));
+		return setProgressive(el, source.hlsUrl);
+	}
+
+	const mod = await importHls();
+	if (generations.get(el) !== generation) return;
+	const HlsPlayer = mod?.default;
+	if (!HlsPlayer?.isSupported()) return setProgressive(el, source.videoUrl);
+
+	const hls = new HlsPlayer(
+		opts.prefetch
+			? { maxBufferLength: PREFETCH_BUFFER_SECONDS, maxMaxBufferLength: PREFETCH_BUFFER_SECONDS }
+			: {}
+	);
+	teardowns.set(el, () => hls.destroy());
+	hls.on(HlsPlayer.Events.ERROR, (_event, data) => {
+		if (data.fatal && generations.get(el) === generation) fallBackToMp4(el, source);
+	});
+	hls.loadSource(source.hlsUrl);
+	hls.attachMedia(el);
+}
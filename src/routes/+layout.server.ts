@@ -1,14 +1,10 @@
 import type { LayoutServerLoad } from './$types';
-import { getUserFromEvent } from '$lib/server/sso-auth';
 
+// locals.user is only set from a verified token (see hooks.server.ts); an unverified session
+// renders as logged out rather than falling back to decoded claims.
 export const load: LayoutServerLoad = async (event) => {
-	if (event.locals.user) return { username: event.locals.user.username };
-
-	try {
-		const user = await getUserFromEvent(event);
-		return { username: user?.username ?? null };
-	} catch {
-		// If SSO is down / refresh fails, don't block the landing site.
-		return { username: null };
-	}
+	return {
+		username: event.locals.user?.username ?? null,
+		roles: event.locals.user?.roles ?? []
+	};
 };
@@ -0,0 +1,15 @@
+import type { PageServerLoad } from './$types';
+import { getVideoShare } from '$lib/server/share';
+
+// The feed itself loads client-side. Server-side this only resolves a shared `?v=<slug>` so
+// link previews get the video's Open Graph / oEmbed tags (unfurlers don't run scripts).
+export const load: PageServerLoad = async ({ url }) => {
+	const slug = url.searchParams.get('v');
+	if (!slug) return { share: null };
+	try {
+		return { share: await getVideoShare(url.origin, slug) };
+	} catch (e) {
+		console.error('Failed to look up shared video', e);
+		return { share: null };
+	}
+};
@@ -0,0 +1,52 @@
+import { fail, redirect } from '@sveltejs/kit';
+import type { Actions, PageServerLoad } from './$types';
+import { isApiKeyScope } from '$lib/api/api-keys';
+import { createApiKey, listApiKeys, revokeApiKey } from '$lib/server/api-keys';
+import { requireRole } from '$lib/server/authz';
+
+const MAX_NAME_LENGTH = 100;
+const EXPIRY_DAYS = new Set([30, 90, 365]);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const load: PageServerLoad = async (event) => {
+	const { url, locals } = event;
+	if (!locals.user) {
+		throw redirect(303, `/login?returnTo=${encodeURIComponent(url.pathname)}`);
+	}
+	requireRole(event, 'admin');
+	return { apiKeys: await listApiKeys() };
+};
+
+export const actions: Actions = {
+	create: async (event) => {
+		const user = requireRole(event, 'admin');
+		const form = await event.request.formData();
+		const name = String(form.get('name') ?? '')
+			.trim()
+			.slice(0, MAX_NAME_LENGTH);
+		const scopes = form.getAll('scopes').map(String).filter(isApiKeyScope);
+		if (!name) return fail(400, { message: 'Give the key a name.' });
+		if (!scopes.length) return fail(400, { message: 'Pick at least one scope.' });
+
+		// Blank means the key never expires.
+		const days = Number.parseInt(String(form.get('expiresInDays') ?? ''), 10);
+		const expiresAt = EXPIRY_DAYS.has(days) ? Date.now() + days * DAY_MS : null;
+
+		const { apiKey, key } = await createApiKey({
+			name,
+			scopes,
+			createdBy: user.username,
+			expiresAt
+		});
+		return { created: { name: apiKey.name, key } };
+	},
+	revoke: async (event) => {
+		requireRole(event, 'admin');
+		const form = await event.request.formData();
+		const id = String(form.get('id') ?? '');
+		if (!(await revokeApiKey(id))) {
+			return fail(404, { message: 'That key is already revoked.' });
+		}
+		return { message: 'Key revoked.' };
+	}
+};
@@ -0,0 +1,25 @@
+import { json, type RequestHandler } from '@sveltejs/kit';
+import {
+	getSessionFromEvent,
+	listSessionsFromEvent,
+	revokeOtherSessionsFromEvent
+} from '$lib/server/sso-auth';
+
+const unauthorized = () =>
+	json({ error: 'Unauthorized' }, { status: 401, headers: { 'cache-control': 'no-store' } });
+
+// GET /api/sessions -> the signed-in user's active sessions (`current` marks this browser)
+export const GET: RequestHandler = async (event) => {
+	if (!(await getSessionFromEvent(event))) return unauthorized();
+	return json(
+		{ sessions: await listSessionsFromEvent(event) },
+		{ headers: { 'cache-control': 'no-store' } }
+	);
+};
+
+// DELETE /api/sessions -> sign out every other device, keeping this one
+export const DELETE: RequestHandler = async (event) => {
+	if (!(await getSessionFromEvent(event))) return unauthorized();
+	const revoked = await revokeOtherSessionsFromEvent(event);
+	return json({ revoked }, { headers: { 'cache-control': 'no-store' } });
+};
@@ -0,0 +1,19 @@
+import { json, type RequestHandler } from '@sveltejs/kit';
+import { getSessionFromEvent, revokeSessionFromEvent } from '$lib/server/sso-auth';
+
+// DELETE /api/sessions/<id> -> end one of the user's sessions (ids come from GET /api/sessions)
+export const DELETE: RequestHandler = async (event) => {
+	if (!(await getSessionFromEvent(event))) {
+		return json(
+			{ error: 'Unauthorized' },
+			{ status: 401, headers: { 'cache-control': 'no-store' } }
+		);
+	}
+	if (!(await revokeSessionFromEvent(event, event.params.id ?? ''))) {
+		return json(
+			{ error: 'Session not found' },
+			{ status: 404, headers: { 'cache-control': 'no-store' } }
+		);
+	}
+	return new Response(null, { status: 204 });
+};
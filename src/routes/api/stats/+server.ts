@@ -0,0 +1,14 @@
+import { json, type RequestHandler } from '@sveltejs/kit';
+import { requireRoleOrScope } from '$lib/server/authz';
+import { getStatsSummary, getStatsWindow, parseStatsRange } from '$lib/server/stats';
+
+// GET /api/stats?range=7d -> totals for the window (plays, viewers, visits, deep links)
+export const GET: RequestHandler = async (event) => {
+	requireRoleOrScope(event, 'viewer', 'stats:read');
+	const { url } = event;
+
+	const window = getStatsWindow(parseStatsRange(url.searchParams.get('range')));
+	return json(await getStatsSummary(window), {
+		headers: { 'cache-control': 'private, max-age=60' }
+	});
+};
@@ -0,0 +1,19 @@
+import { json, type RequestHandler } from '@sveltejs/kit';
+import { requireRoleOrScope } from '$lib/server/authz';
+import type { PlaysResponse } from '$lib/api/stats';
+import { getPlaysOverTime, getStatsWindow, parseStatsRange } from '$lib/server/stats';
+
+// GET /api/stats/plays?range=30d&video=<slug> -> plays and unique viewers per hour/day
+export const GET: RequestHandler = async (event) => {
+	requireRoleOrScope(event, 'viewer', 'stats:read');
+	const { url } = event;
+
+	const window = getStatsWindow(parseStatsRange(url.searchParams.get('range')));
+	const videoId = url.searchParams.get('video')?.trim() || null;
+	const response: PlaysResponse = {
+		window,
+		videoId,
+		points: await getPlaysOverTime(window, videoId)
+	};
+	return json(response, { headers: { 'cache-control': 'private, max-age=60' } });
+};
@@ -0,0 +1,21 @@
+import { json, type RequestHandler } from '@sveltejs/kit';
+import { requireRoleOrScope } from '$lib/server/authz';
+import type { TopVideosResponse } from '$lib/api/stats';
+import { getStatsWindow, getTopVideos, parseStatsRange } from '$lib/server/stats';
+
+const clampInt = (value: string | null, fallback: number, min: number, max: number) => {
+	const parsed = value ? Number.parseInt(value, 10) : Number.NaN;
+	if (!Number.isFinite(parsed)) return fallback;
+	return Math.min(max, Math.max(min, parsed));
+};
+
+// GET /api/stats/top?range=7d&limit=20 -> most played videos in the window
+export const GET: RequestHandler = async (event) => {
+	requireRoleOrScope(event, 'viewer', 'stats:read');
+	const { url } = event;
+
+	const window = getStatsWindow(parseStatsRange(url.searchParams.get('range')));
+	const limit = clampInt(url.searchParams.get('limit'), 20, 1, 100);
+	const response: TopVideosResponse = { window, videos: await getTopVideos(window, limit) };
+	return json(response, { headers: { 'cache-control': 'private, max-age=60' } });
+};
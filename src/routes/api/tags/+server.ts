@@ -0,0 +1,24 @@
+import { json, type RequestHandler } from '@sveltejs/kit';
+import { listTagVocabulary } from '$lib/server/tags';
+import type { TagsResponse } from '$lib/tags';
+
+const clampInt = (value: string | null, fallback: number, min: number, max: number) => {
+	const parsed = value ? Number.parseInt(value, 10) : Number.NaN;
+	if (!Number.isFinite(parsed)) return fallback;
+	return Math.min(max, Math.max(min, parsed));
+};
+
+// GET /api/tags                  -> every known tag with its usage count
+// GET /api/tags?prefix=ca&limit=8 -> autocomplete suggestions
+export const GET: RequestHandler = async ({ url }) => {
+	const prefix = url.searchParams.get('prefix')?.slice(0, 64) ?? '';
+	const limit = clampInt(url.searchParams.get('limit'), 1000, 1, 1000);
+
+	const response: TagsResponse = { tags: await listTagVocabulary({ prefix, limit }) };
+	return json(response, {
+		headers: {
+			// Suggestions can lag a little behind edits; let the browser reuse them briefly.
+			'cache-control': 'private, max-age=30'
+		}
+	});
+};
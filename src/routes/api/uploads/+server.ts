@@ -0,0 +1,23 @@
+import { json, type RequestHandler } from '@sveltejs/kit';
+import { ApiError } from '$lib/api/error';
+import { actorOf, requireRoleOrScope } from '$lib/server/authz';
+import { createUpload, parseCreateUploadRequest } from '$lib/server/uploads';
+
+// POST /api/uploads { contentType, size } -> presigned PUT for a new `_full/<slug>.mp4`
+export const POST: RequestHandler = async (event) => {
+	requireRoleOrScope(event, 'tagger', 'videos:upload');
+	const body = (await event.request.json().catch(() => null)) as unknown;
+
+	try {
+		const ticket = await createUpload(parseCreateUploadRequest(body), actorOf(event.locals));
+		return json(ticket, { status: 201, headers: { 'cache-control': 'no-store' } });
+	} catch (e) {
+		if (e instanceof ApiError) {
+			return json(
+				{ error: e.message },
+				{ status: e.status, headers: { 'cache-control': 'no-store' } }
+			);
+		}
+		throw e;
+	}
+};
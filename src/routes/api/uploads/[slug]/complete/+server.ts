@@ -0,0 +1,24 @@
+import { json, type RequestHandler } from '@sveltejs/kit';
+import { ApiError } from '$lib/api/error';
+import type { CompletedUpload } from '$lib/api/uploads';
+import { actorOf, requireRoleOrScope } from '$lib/server/authz';
+import { completeUpload } from '$lib/server/uploads';
+
+// POST /api/uploads/<slug>/complete once the PUT has succeeded; adds the video to the feed.
+export const POST: RequestHandler = async (event) => {
+	requireRoleOrScope(event, 'tagger', 'videos:upload');
+
+	try {
+		const video = await completeUpload(event.params.slug ?? '', actorOf(event.locals));
+		const response: CompletedUpload = { video };
+		return json(response, { headers: { 'cache-control': 'no-store' } });
+	} catch (e) {
+		if (e instanceof ApiError) {
+			return json(
+				{ error: e.message },
+				{ status: e.status, headers: { 'cache-control': 'no-store' } }
+			);
+		}
+		throw e;
+	}
+};
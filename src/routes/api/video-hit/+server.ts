@@ -1,10 +1,28 @@
 import { json, type RequestHandler } from '@sveltejs/kit';
 import { randomUUID } from 'node:crypto';
-import { getPostgresPool } from '$lib/server/postgres';
+import { enqueueVideoHit } from '$lib/server/analytics-queue';
+import { resolveClientAddress, toStoredIp } from '$lib/server/client-address';
 import { recordVideoHit } from '$lib/server/hit-metrics';
+import { claimVideoPlay } from '$lib/server/rate-limit';
 import { env } from '$env/dynamic/private';
+import { isVideoHitSource, type VideoHitRequest, type VideoHitSource } from '$lib/api/videos';
 
-export const POST: RequestHandler = async ({ request, getClientAddress }) => {
+const MAX_REFERRER_LENGTH = 512;
+
+// The embedding page, reduced to origin + path: query strings and fragments routinely carry
+// session ids and tracking tokens we have no use for.
+const toStoredReferrer = (raw: string): string | null => {
+    try {
+        const url = new URL(raw);
+        if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+        return `${url.origin}${url.pathname}`.slice(0, MAX_REFERRER_LENGTH);
+    } catch {
+        return null;
+    }
+};
+
+export const POST: RequestHandler = async (event) => {
+    const { request } = event;
     //console.log('headers (ip-related):', {
     //    xff: request.headers.get('x-forwarded-for'),
     //    xri: request.headers.get('x-real-ip'),
@@ -16,12 +34,20 @@ export const POST: RequestHandler = async ({ request, getClientAddress }) => {
     //});
 
     let videoId: string | null = null;
+    let source: VideoHitSource = 'feed';
+    let referrer: string | null = null;
 
     try {
         const body = (await request.json()) as unknown;
         if (typeof body === 'object' && body !== null && 'videoId' in body) {
-            const raw = (body as { videoId?: unknown }).videoId;
-            if (typeof raw === 'string') videoId = raw.trim();
+            const fields = body as { [K in keyof VideoHitRequest]?: unknown };
+            if (typeof fields.videoId === 'string') videoId = fields.videoId.trim();
+            if (typeof fields.source === 'string' && isVideoHitSource(fields.source)) {
+                source = fields.source;
+            }
+            if (source === 'embed' && typeof fields.referrer === 'string') {
+                referrer = toStoredReferrer(fields.referrer);
+            }
         }
     } catch {
         // ignore JSON parse errors; handled below
@@ -31,24 +57,25 @@ export const POST: RequestHandler = async ({ request, getClientAddress }) => {
         return json({ error: 'Missing videoId' }, { status: 400 });
     }
 
-    const pool = getPostgresPool();
     const id = randomUUID();
     const timestamp = Date.now();
-    const ipAddress = request.headers.get('x-forwarded-for') ?? getClientAddress();
+    const clientAddress = resolveClientAddress(event);
+    const ipAddress = toStoredIp(clientAddress);
     const useragent = request.headers.get('user-agent')?.trim() || 'unknown';
+    // Replays of the same video by the same viewer inside the dedupe window aren't new plays.
+    const viewerKey = event.locals.user
+        ? `user:${event.locals.user.id}`
+        : `${clientAddress} ${useragent}`;
+    if (!(await claimVideoPlay(viewerKey, videoId))) {
+        return new Response(null, { status: 204 });
+    }
     if (env.ENABLE_METRICS == 'true') {
-        await pool.query(
-            'insert into video_hits (id, video_id, ip_address, useragent, timestamp) values ($1, $2, $3, $4, $5)',
-            [id, videoId, ipAddress, useragent, timestamp]
-        );
-        recordVideoHit({
-            videoId,
-            ipAddress,
-            useragent,
-        });
+        // Buffered and written in batches; never wait on Postgres before answering.
+        enqueueVideoHit({ id, videoId, ipAddress, useragent, timestamp, source, referrer });
+        recordVideoHit({ source, useragent });
     }
 
-    console.log('[VIDEO]', ipAddress, 'user-agent:', useragent, 'video:', videoId);
+    console.log('[VIDEO]', ipAddress, 'user-agent:', useragent, 'video:', videoId, 'from:', source);
 
     return new Response(null, { status: 204 });
 };
@@ -1,23 +1,17 @@
-import { dev } from '$app/environment';
 import { fetchWithAuth } from '$lib/server/sso-auth';
-import type { RequestEvent, RequestHandler } from '@sveltejs/kit';
-import { env } from '$env/dynamic/private';
+import { json, type RequestEvent, type RequestHandler } from '@sveltejs/kit';
+import { ApiError } from '$lib/api/error';
+import { actorOf, requireRoleOrScope, requireScope } from '$lib/server/authz';
+import { canonicalizeTags } from '$lib/server/tags';
+import { recordVideoTags } from '$lib/server/video-catalog';
+import { purgeVideo, removeVideo } from '$lib/server/video-deletion';
+import { toVideoServiceUrl } from '$lib/server/video-service';
 
 type Video = {
 	id: string;
 	tags: string[];
 };
 
-function getVideoServiceBaseUrl(): string {
-	return env.VIDEO_BASE_URL ?? (dev
-		? 'https://api.slopindustries.com'
-		: 'http://core-video.core.svc.cluster.local');
-}
-
-function toUpstreamUrl(videoId: string): string {
-	return `${getVideoServiceBaseUrl()}/video/${encodeURIComponent(videoId)}`;
-}
-
 async function proxy(event: RequestEvent, init: RequestInit): Promise<Response> {
 	const videoId = event.params.video_id;
 	if (!videoId) {
@@ -27,7 +21,7 @@ async function proxy(event: RequestEvent, init: RequestInit): Promise<Response>
 		});
 	}
 
-	const upstream = await fetchWithAuth(event, toUpstreamUrl(videoId), init);
+	const upstream = await fetchWithAuth(event, toVideoServiceUrl(videoId), init);
 	const body = upstream.status != 204 ? await upstream.text().catch(() => '') : null;
 	return new Response(body, {
 		status: upstream.status,
@@ -38,11 +32,30 @@ async function proxy(event: RequestEvent, init: RequestInit): Promise<Response>
 	});
 }
 
+// Keep the local catalog's copy of the tags in step with upstream so the feed can filter on them.
+function mirrorTags(videoId: string, tags: string[]) {
+	void recordVideoTags(videoId, tags).catch((e) => {
+		console.error(`Failed to mirror tags for video ${videoId}`, e);
+	});
+}
+
 export const GET: RequestHandler = async (event) => {
-	return proxy(event, { method: 'GET' });
+	requireScope(event, 'videos:read');
+	const resp = await proxy(event, { method: 'GET' });
+	if (resp.ok && event.params.video_id) {
+		const video = (await resp.clone().json().catch(() => null)) as Partial<Video> | null;
+		if (Array.isArray(video?.tags)) {
+			mirrorTags(
+				event.params.video_id,
+				video.tags.filter((t): t is string => typeof t === 'string')
+			);
+		}
+	}
+	return resp;
 };
 
 export const PUT: RequestHandler = async (event) => {
+	requireRoleOrScope(event, 'tagger', 'videos:tag');
 	const videoId = event.params.video_id;
 	if (!videoId) {
 		return new Response(JSON.stringify({ error: 'Missing video_id' }), {
@@ -55,8 +68,9 @@ export const PUT: RequestHandler = async (event) => {
 		| { tags?: unknown }
 		| null;
 
+	// Fold case, collapse whitespace and apply TAG_ALIASES so upstream only sees canonical tags.
 	const tags = Array.isArray(body?.tags)
-		? body!.tags.filter((t): t is string => typeof t === 'string')
+		? canonicalizeTags(body!.tags.filter((t): t is string => typeof t === 'string'))
 		: null;
 
 	if (!tags) {
@@ -79,11 +93,35 @@ export const PUT: RequestHandler = async (event) => {
 		body: JSON.stringify(payload)
 	});
 	if (resp.status > 299) {
-		console.error(`Failed to update video ${videoId}: ${await resp.text()}`);
+		console.error(`Failed to update video ${videoId}: ${await resp.clone().text()}`);
+	} else {
+		mirrorTags(videoId, tags);
 	}
 	return resp;
 };
 
+// Removes the video from the feed; it can be restored (POST ./restore) until the purger deletes
+// it for good. `?purge=true` skips the restore window and deletes everything now.
 export const DELETE: RequestHandler = async (event) => {
-	return proxy(event, { method: 'DELETE' });
+	requireRoleOrScope(event, 'moderator', 'videos:delete');
+	const videoId = event.params.video_id ?? '';
+	const actor = actorOf(event.locals);
+
+	try {
+		let deletion = await removeVideo(videoId, actor);
+		if (event.url.searchParams.get('purge') === 'true') {
+			deletion = await purgeVideo(videoId, actor, (input, init) =>
+				fetchWithAuth(event, input, init)
+			);
+		}
+		return json(deletion, { headers: { 'cache-control': 'no-store' } });
+	} catch (e) {
+		if (e instanceof ApiError) {
+			return json(
+				{ error: e.message },
+				{ status: e.status, headers: { 'cache-control': 'no-store' } }
+			);
+		}
+		throw e;
+	}
 };
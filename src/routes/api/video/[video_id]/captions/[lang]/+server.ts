@@ -0,0 +1,29 @@
+import { json, type RequestHandler } from '@sveltejs/kit';
+import { ApiError } from '$lib/api/error';
+import type { CaptionUploadResponse } from '$lib/api/captions';
+import { normalizeCaptionLang } from '$lib/captions';
+import { requireRoleOrScope } from '$lib/server/authz';
+import { putCaption, readCaptionFile } from '$lib/server/captions';
+
+// PUT /api/video/<id>/captions/<lang> with a WebVTT or SRT file as the body: add or replace
+// that language's track.
+export const PUT: RequestHandler = async (event) => {
+	requireRoleOrScope(event, 'tagger', 'videos:upload');
+
+	try {
+		const lang = normalizeCaptionLang(event.params.lang ?? '');
+		if (!lang) throw new ApiError('Invalid language code', 400);
+		const text = await readCaptionFile(event.request);
+		const captions = await putCaption(event.params.video_id ?? '', lang, text);
+		const response: CaptionUploadResponse = { captions };
+		return json(response, { headers: { 'cache-control': 'no-store' } });
+	} catch (e) {
+		if (e instanceof ApiError) {
+			return json(
+				{ error: e.message },
+				{ status: e.status, headers: { 'cache-control': 'no-store' } }
+			);
+		}
+		throw e;
+	}
+};
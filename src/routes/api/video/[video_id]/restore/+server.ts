@@ -0,0 +1,22 @@
+import { json, type RequestHandler } from '@sveltejs/kit';
+import { ApiError } from '$lib/api/error';
+import { actorOf, requireRoleOrScope } from '$lib/server/authz';
+import { restoreVideo } from '$lib/server/video-deletion';
+
+// POST /api/video/<id>/restore: undo a delete that hasn't been purged yet.
+export const POST: RequestHandler = async (event) => {
+	requireRoleOrScope(event, 'moderator', 'videos:delete');
+
+	try {
+		const deletion = await restoreVideo(event.params.video_id ?? '', actorOf(event.locals));
+		return json(deletion, { headers: { 'cache-control': 'no-store' } });
+	} catch (e) {
+		if (e instanceof ApiError) {
+			return json(
+				{ error: e.message },
+				{ status: e.status, headers: { 'cache-control': 'no-store' } }
+			);
+		}
+		throw e;
+	}
+};
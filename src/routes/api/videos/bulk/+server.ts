@@ -0,0 +1,35 @@
+import { json, type RequestHandler } from '@sveltejs/kit';
+import { ApiError } from '$lib/api/error';
+import { actorOf, requireRoleOrScope } from '$lib/server/authz';
+import { fetchWithAuth } from '$lib/server/sso-auth';
+import {
+	BULK_ACTION_ACCESS,
+	parseBulkVideoRequest,
+	runBulkVideoAction
+} from '$lib/server/video-bulk';
+
+// POST /api/videos/bulk { action, ids, tags? } -> per-video results. Answers 200 even when some
+// (or all) items failed; check `failed` and each result's `ok`.
+export const POST: RequestHandler = async (event) => {
+	const body = (await event.request.json().catch(() => null)) as unknown;
+
+	try {
+		const request = parseBulkVideoRequest(body);
+		const { role, scope } = BULK_ACTION_ACCESS[request.action];
+		requireRoleOrScope(event, role, scope);
+
+		const response = await runBulkVideoAction(request, {
+			actor: actorOf(event.locals),
+			upstreamFetch: (input, init) => fetchWithAuth(event, input, init)
+		});
+		return json(response, { headers: { 'cache-control': 'no-store' } });
+	} catch (e) {
+		if (e instanceof ApiError) {
+			return json(
+				{ error: e.message },
+				{ status: e.status, headers: { 'cache-control': 'no-store' } }
+			);
+		}
+		throw e;
+	}
+};
@@ -0,0 +1,14 @@
+import { redirect } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { completeOidcLoginFromEvent } from '$lib/server/sso-auth';
+
+export const GET: RequestHandler = async (event) => {
+	let returnTo: string;
+	try {
+		returnTo = await completeOidcLoginFromEvent(event);
+	} catch (e) {
+		console.error('[AUTH] OIDC callback failed', e);
+		throw redirect(303, '/login?error=oidc');
+	}
+	throw redirect(303, returnTo);
+};
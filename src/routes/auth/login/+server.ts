@@ -0,0 +1,15 @@
+import { error, redirect } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { isOidcLoginEnabled } from '$lib/server/oidc';
+import { beginOidcLoginFromEvent } from '$lib/server/sso-auth';
+
+// Redirects to Keycloak. `?idp=<alias>` skips straight to a brokered identity provider.
+export const GET: RequestHandler = async (event) => {
+	if (!isOidcLoginEnabled()) throw error(404, 'OIDC login is not configured');
+	const url = beginOidcLoginFromEvent(
+		event,
+		event.url.searchParams.get('returnTo'),
+		event.url.searchParams.get('idp')
+	);
+	throw redirect(303, url);
+};
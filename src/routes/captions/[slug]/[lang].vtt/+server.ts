@@ -0,0 +1,20 @@
+import { error, type RequestHandler } from '@sveltejs/kit';
+import { normalizeCaptionLang } from '$lib/captions';
+import { getCaption } from '$lib/server/captions';
+
+// GET /captions/<slug>/<lang>.vtt: a caption track for <track src>. Cached briefly, since an
+// upload replaces the file under the same URL.
+export const GET: RequestHandler = async ({ params }) => {
+	const lang = normalizeCaptionLang(params.lang ?? '');
+	if (!lang || lang !== params.lang) error(404, 'Not found');
+
+	const vtt = await getCaption(params.slug ?? '', lang);
+	if (vtt === null) error(404, 'Not found');
+
+	return new Response(vtt, {
+		headers: {
+			'content-type': 'text/vtt; charset=utf-8',
+			'cache-control': 'public, max-age=300'
+		}
+	});
+};
@@ -0,0 +1,24 @@
+import { error } from '@sveltejs/kit';
+import type { PageServerLoad } from './$types';
+import { getEmbedFrameAncestors, parseEmbedOptions } from '$lib/server/embed';
+import { normalizeShareSlug, videoPageUrl } from '$lib/server/share';
+import { getVideo } from '$lib/server/video-catalog';
+
+export const load: PageServerLoad = async ({ params, url, setHeaders }) => {
+	const slug = normalizeShareSlug(params.slug);
+	const video = slug ? await getVideo(slug) : null;
+	if (!video) error(404, 'Video not found');
+
+	setHeaders({ 'content-security-policy': `frame-ancestors ${getEmbedFrameAncestors()}` });
+	return {
+		video: {
+			id: video.id,
+			videoUrl: video.videoUrl,
+			thumbUrl: video.thumbUrl,
+			posterUrl: video.posterUrl,
+			captions: video.captions
+		},
+		pageUrl: videoPageUrl(url.origin, video.id),
+		options: parseEmbedOptions(url.searchParams)
+	};
+};
@@ -1,15 +1,17 @@
 import type { Actions, PageServerLoad } from './$types';
 import { fail, redirect } from '@sveltejs/kit';
 import { ApiError } from '$lib/api/error';
-import { getUserFromEvent, loginFromEvent } from '$lib/server/sso-auth';
+import { loginFromEvent } from '$lib/server/sso-auth';
+import { isOidcLoginEnabled, safeReturnTo } from '$lib/server/oidc';
 
 export const load: PageServerLoad = async (event) => {
-	try {
-		const user = await getUserFromEvent(event);
-		return { username: user?.username ?? null };
-	} catch {
-		return { username: null };
-	}
+	return {
+		username: event.locals.user?.username ?? null,
+		oidcEnabled: isOidcLoginEnabled(),
+		returnTo: safeReturnTo(event.url.searchParams.get('returnTo')),
+		// Set by /auth/callback when the Keycloak round trip fails.
+		oidcFailed: event.url.searchParams.get('error') === 'oidc'
+	};
 };
 
 export const actions: Actions = {
@@ -32,9 +34,7 @@ export const actions: Actions = {
 
 		const returnToFromBody = String(form.get('returnTo') ?? '').trim();
 		const returnToFromQuery = event.url.searchParams.get('returnTo') ?? '';
-		const returnTo = returnToFromBody || returnToFromQuery || '/';
-		// Prevent open redirects.
-		const safeReturnTo = returnTo.startsWith('/') ? returnTo : '/';
-		throw redirect(303, safeReturnTo);
+		// Prevent open redirects, including protocol-relative `//host` paths.
+		throw redirect(303, safeReturnTo(returnToFromBody || returnToFromQuery));
 	}
 };
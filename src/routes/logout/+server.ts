@@ -1,8 +1,19 @@
 import { redirect } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
-import { clearAuthCookies } from '$lib/server/sso-auth';
+import { getOidcLogoutUrl } from '$lib/server/oidc';
+import { logoutFromEvent } from '$lib/server/sso-auth';
 
 export const POST: RequestHandler = async (event) => {
-	clearAuthCookies(event);
-	throw redirect(303, '/');
+	let location = '/';
+	try {
+		const ended = await logoutFromEvent(event);
+		// Keycloak logins also end the IdP session, or the next login would skip the password.
+		if (ended?.provider === 'oidc') {
+			location = getOidcLogoutUrl(ended.idToken, `${event.url.origin}/`) ?? location;
+		}
+	} catch (e) {
+		// The cookie is gone either way; an orphaned session row just expires.
+		console.error('[AUTH] failed to revoke session on logout', e);
+	}
+	throw redirect(303, location);
 };
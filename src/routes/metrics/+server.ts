@@ -1,8 +1,8 @@
 import type { RequestHandler } from '@sveltejs/kit';
-import { renderPrometheusMetrics } from '$lib/server/hit-metrics';
+import { renderMetrics } from '$lib/server/metrics';
 
 export const GET: RequestHandler = async () => {
-    const body = renderPrometheusMetrics();
+    const body = renderMetrics();
 
     return new Response(body, {
         headers: {
@@ -0,0 +1,69 @@
+import { json, type RequestHandler } from '@sveltejs/kit';
+import {
+	PLAYER_HEIGHT,
+	PLAYER_WIDTH,
+	SITE_NAME,
+	getVideoShare,
+	slugFromPageUrl
+} from '$lib/server/share';
+
+const escapeAttr = (value: string) =>
+	value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+
+const readDimension = (value: string | null) => {
+	const parsed = Number.parseInt(value ?? '', 10);
+	return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+};
+
+// Shrink the nominal player to fit maxwidth / maxheight, keeping its aspect ratio.
+const fitPlayer = (maxWidth: number | null, maxHeight: number | null) => {
+	const scale = Math.min(
+		1,
+		maxWidth ? maxWidth / PLAYER_WIDTH : 1,
+		maxHeight ? maxHeight / PLAYER_HEIGHT : 1
+	);
+	return {
+		width: Math.max(1, Math.floor(PLAYER_WIDTH * scale)),
+		height: Math.max(1, Math.floor(PLAYER_HEIGHT * scale))
+	};
+};
+
+// oEmbed (https://oembed.com) for shared `/?v=<slug>` links: GET /oembed?url=...&format=json
+export const GET: RequestHandler = async ({ url }) => {
+	const headers = { 'cache-control': 'no-store' };
+	const format = url.searchParams.get('format') ?? 'json';
+	if (format !== 'json') {
+		return json({ error: 'Only format=json is supported' }, { status: 501, headers });
+	}
+
+	const slug = slugFromPageUrl(url.searchParams.get('url') ?? '', url.origin);
+	const share = slug ? await getVideoShare(url.origin, slug) : null;
+	if (!share) return json({ error: 'Unknown video URL' }, { status: 404, headers });
+
+	const { width, height } = fitPlayer(
+		readDimension(url.searchParams.get('maxwidth')),
+		readDimension(url.searchParams.get('maxheight'))
+	);
+	return json(
+		{
+			version: '1.0',
+			type: 'video',
+			provider_name: SITE_NAME,
+			provider_url: `${url.origin}/`,
+			title: share.title,
+			width,
+			height,
+			html: `<iframe src="${escapeAttr(share.embedUrl)}" width="${width}" height="${height}" frameborder="0" allow="autoplay; fullscreen; picture-in-picture" allowfullscreen></iframe>`,
+			// oEmbed only allows a thumbnail with its dimensions, which posters don't have.
+			...(share.imageWidth !== null && share.imageHeight !== null
+				? {
+						thumbnail_url: share.imageUrl,
+						thumbnail_width: share.imageWidth,
+						thumbnail_height: share.imageHeight
+					}
+				: {})
+		},
+		// Unfurlers poll this; a short shared cache is plenty.
+		{ headers: { 'cache-control': 'public, max-age=300' } }
+	);
+};
@@ -0,0 +1,36 @@
+import { fail, redirect } from '@sveltejs/kit';
+import type { Actions, PageServerLoad } from './$types';
+import {
+	getSessionFromEvent,
+	listSessionsFromEvent,
+	revokeOtherSessionsFromEvent,
+	revokeSessionFromEvent
+} from '$lib/server/sso-auth';
+
+export const load: PageServerLoad = async (event) => {
+	if (!(await getSessionFromEvent(event))) {
+		throw redirect(303, `/login?returnTo=${encodeURIComponent(event.url.pathname)}`);
+	}
+	return { sessions: await listSessionsFromEvent(event) };
+};
+
+export const actions: Actions = {
+	revoke: async (event) => {
+		if (!(await getSessionFromEvent(event))) return fail(401, { message: 'Not signed in.' });
+		const form = await event.request.formData();
+		const id = String(form.get('id') ?? '');
+		if (!(await revokeSessionFromEvent(event, id))) {
+			return fail(404, { message: 'That session has already ended.' });
+		}
+		if (!(await getSessionFromEvent(event))) throw redirect(303, '/');
+		return { message: 'Session signed out.' };
+	},
+	revokeOthers: async (event) => {
+		if (!(await getSessionFromEvent(event))) return fail(401, { message: 'Not signed in.' });
+		const revoked = await revokeOtherSessionsFromEvent(event);
+		return {
+			message:
+				revoked === 1 ? 'Signed out 1 other session.' : `Signed out ${revoked} other sessions.`
+		};
+	}
+};
@@ -0,0 +1,29 @@
+import { redirect } from '@sveltejs/kit';
+import type { PageServerLoad } from './$types';
+import { requireRole } from '$lib/server/authz';
+import {
+	getDeepLinks,
+	getPlaysOverTime,
+	getStatsSummary,
+	getStatsWindow,
+	getTopVideos,
+	parseStatsRange
+} from '$lib/server/stats';
+
+export const load: PageServerLoad = async (event) => {
+	const { url, locals } = event;
+	if (!locals.user) {
+		throw redirect(303, `/login?returnTo=${encodeURIComponent(url.pathname + url.search)}`);
+	}
+	requireRole(event, 'viewer');
+
+	const window = getStatsWindow(parseStatsRange(url.searchParams.get('range')));
+	const videoId = url.searchParams.get('video')?.trim() || null;
+	const [summary, plays, top, deepLinks] = await Promise.all([
+		getStatsSummary(window),
+		getPlaysOverTime(window, videoId),
+		getTopVideos(window, 20),
+		getDeepLinks(window, 20)
+	]);
+	return { window, videoId, summary, plays, top, deepLinks };
+};